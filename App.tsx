@@ -5,6 +5,8 @@ import { ThemeProvider, useTheme } from './contexts/AppContexts';
 import AuthPage from './components/Auth';
 import Dashboard from './components/Dashboard';
 import Practice from './components/Practice';
+import MockExam from './components/MockExam';
+import ReviewSession from './components/ReviewSession';
 import VoiceTest from './components/VoiceTest';
 import Leaderboard from './components/Leaderboard';
 import Community from './components/Community';
@@ -12,7 +14,11 @@ import AIMentor from './components/AIMentor';
 import Profile from './components/Profile';
 import Avatar from './components/Avatar';
 import PasswordReset from './components/PasswordReset';
-import { SunIcon, MoonIcon, MenuIcon, XIcon, FireIcon, BrainCircuitIcon, UsersIcon, TrophyIcon, MicVocalIcon, MessageSquareIcon, UserCircleIcon, LogOutIcon } from './components/Icons';
+import TestHistory from './components/TestHistory';
+import SavedQuestions from './components/SavedQuestions';
+import DailyChallenge from './components/DailyChallenge';
+import QuestionReports from './components/QuestionReports';
+import { SunIcon, MoonIcon, MenuIcon, XIcon, FireIcon, BrainCircuitIcon, UsersIcon, TrophyIcon, MicVocalIcon, MessageSquareIcon, UserCircleIcon, LogOutIcon, ClockIcon, BookmarkIcon, FlameIcon, FlagIcon } from './components/Icons';
 
 const App: React.FC = () => {
   return (
@@ -81,12 +87,16 @@ const AppLayout: React.FC = () => {
 
   const navItems = [
     { name: 'Dashboard', path: '/dashboard', icon: <FireIcon /> },
+    { name: 'History', path: '/history', icon: <ClockIcon /> },
     { name: 'Practice', path: '/practice', icon: <BrainCircuitIcon /> },
+    { name: 'Daily Challenge', path: '/daily-challenge', icon: <FlameIcon /> },
+    { name: 'Saved', path: '/saved', icon: <BookmarkIcon /> },
     { name: 'Voice Test', path: '/voice-test', icon: <MicVocalIcon /> },
     { name: 'Leaderboard', path: '/leaderboard', icon: <TrophyIcon /> },
     { name: 'Community', path: '/community', icon: <UsersIcon /> },
     { name: 'AI Mentor', path: '/mentor', icon: <MessageSquareIcon /> },
     { name: 'Profile', path: '/profile', icon: <UserCircleIcon /> },
+    ...(profile?.is_admin ? [{ name: 'Reports', path: '/admin/reports', icon: <FlagIcon /> }] : []),
   ];
 
   const location = useLocation();
@@ -146,12 +156,20 @@ const AppLayout: React.FC = () => {
         <main className="flex-1 overflow-x-hidden overflow-y-auto bg-gray-100 dark:bg-gray-900 p-4 sm:p-6 lg:p-8">
             <Routes>
                 <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/history" element={<TestHistory />} />
+                <Route path="/history/:resultId" element={<TestHistory />} />
                 <Route path="/practice" element={<Practice />} />
+                <Route path="/practice/mock-exam" element={<MockExam />} />
+                <Route path="/practice/review" element={<ReviewSession />} />
                 <Route path="/practice/:topic" element={<Practice />} />
+                <Route path="/practice/:topic/:subtopic" element={<Practice />} />
+                <Route path="/saved" element={<SavedQuestions />} />
+                <Route path="/daily-challenge" element={<DailyChallenge />} />
                 <Route path="/voice-test" element={<VoiceTest />} />
                 <Route path="/leaderboard" element={<Leaderboard />} />
                 <Route path="/community" element={<Community />} />
                 <Route path="/mentor" element={<AIMentor />} />
+                <Route path="/admin/reports" element={<QuestionReports />} />
                 <Route path="/profile/:userId" element={<Profile />} />
                 <Route path="/profile" element={<Profile />} />
                 <Route path="*" element={<Navigate to="/dashboard" replace />} />
@@ -3,6 +3,7 @@ import { getAIMentorResponse } from '../services/geminiService';
 import { SendIcon } from './Icons';
 import { useAuth } from '../contexts/AppContexts';
 import Avatar from './Avatar';
+import RichText from './RichText';
 
 interface Message {
     role: 'user' | 'model';
@@ -68,7 +69,9 @@ const AIMentor: React.FC = () => {
                         <div key={index} className={`flex items-end gap-2 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                             {msg.role === 'model' && <Avatar name="AI" size={32} />}
                             <div className={`max-w-sm md:max-w-md p-3 rounded-2xl ${msg.role === 'user' ? 'bg-gradient-to-r from-fire-orange-start to-fire-red-end text-white rounded-br-none' : 'bg-gray-200 dark:bg-gray-700 rounded-bl-none'}`}>
-                                <p style={{ whiteSpace: 'pre-wrap' }}>{msg.parts[0].text}</p>
+                                {msg.role === 'model'
+                                    ? <RichText text={msg.parts[0].text} />
+                                    : <p style={{ whiteSpace: 'pre-wrap' }}>{msg.parts[0].text}</p>}
                             </div>
                             {msg.role === 'user' && <Avatar avatarUrl={profile?.avatar_url} name={profile?.username || user?.email} size={32} />}
                         </div>
@@ -5,6 +5,7 @@ import { CommunityPost } from '../types';
 import { SendIcon, SearchIcon } from './Icons';
 import Avatar from './Avatar';
 import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import RichText from './RichText';
 
 const Community: React.FC = () => {
     const { user, profile } = useAuth();
@@ -142,7 +143,7 @@ export const PostCard: React.FC<{ post: CommunityPost }> = ({ post }) => (
                 <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(post.created_at).toLocaleString()}</p>
             </div>
         </div>
-        <p className="text-gray-800 dark:text-gray-200 break-words">{post.content}</p>
+        <RichText text={post.content} className="text-gray-800 dark:text-gray-200" />
     </div>
 );
 
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AppContexts';
+import {
+    buildDailyChallenge, challengeDate, loadDailyAttempt, startDailyChallenge, submitDailyChallenge,
+    loadDailyLeaderboard, timeTaken, saveDailyAnswersLocally, loadDailyAnswersLocally, clearDailyAnswersLocally,
+    DAILY_CHALLENGE_TIME_LIMIT_SECONDS
+} from '../services/dailyChallenge';
+import { formatScore, DEFAULT_SCORING_SCHEME } from '../services/scoring';
+import { DailyChallengeAttempt, DailyChallengeEntry, TestSettings } from '../types';
+import { ClockIcon, FlameIcon, TrophyIcon } from './Icons';
+import Avatar from './Avatar';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import QuestionCard from './QuestionCard';
+import KeyboardShortcuts, { optionShortcut } from './KeyboardShortcuts';
+
+type ChallengeState = 'loading' | 'intro' | 'in-progress' | 'submitting' | 'done';
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${('0' + seconds % 60).slice(-2)}`;
+
+/** The day's ranking: score first, then the time taken. */
+export const DailyLeaderboard: React.FC<{ date: string; refreshKey?: number }> = ({ date, refreshKey }) => {
+    const { user } = useAuth();
+    const [entries, setEntries] = useState<DailyChallengeEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setLoading(true);
+        loadDailyLeaderboard(date)
+            .then(data => {
+                setEntries(data);
+                setFetchError(null);
+            })
+            .catch((e: any) => {
+                console.error("Error fetching daily leaderboard:", e.message);
+                setFetchError(e.message);
+            })
+            .finally(() => setLoading(false));
+    }, [date, refreshKey]);
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-hidden">
+            <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-xl font-bold">Today's Challenge Rankings</h2>
+                <p className="text-gray-500 dark:text-gray-400">Ranked by score, then by time taken.</p>
+            </div>
+            {loading ? (
+                <div className="p-6 text-center">Loading rankings...</div>
+            ) : fetchError ? (
+                <div className="p-6">
+                    <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />
+                </div>
+            ) : entries.length === 0 ? (
+                <div className="p-6 text-center text-gray-500">No one has finished today's challenge yet. Be the first!</div>
+            ) : (
+                <ul>
+                    {entries.map((entry, index) => (
+                        <li key={entry.user_id}>
+                            <Link to={`/profile/${entry.user_id}`} className={`flex items-center p-4 transition-colors ${entry.user_id === user?.id ? 'bg-gradient-to-r from-orange-50 to-red-50 dark:from-gray-700/50 dark:to-gray-700/50' : 'hover:bg-gray-50 dark:hover:bg-gray-700/30'} ${index !== entries.length - 1 ? 'border-b border-gray-200 dark:border-gray-700' : ''}`}>
+                                <div className="flex items-center w-1/6">
+                                    <span className="font-bold text-lg text-gray-600 dark:text-gray-300 w-8 text-center">{index + 1}</span>
+                                    {index < 3 && <TrophyIcon className={index === 0 ? 'text-yellow-400' : index === 1 ? 'text-gray-400' : 'text-yellow-600'} />}
+                                </div>
+                                <div className="flex items-center w-3/6">
+                                    <Avatar avatarUrl={entry.profiles?.avatar_url ?? null} name={entry.profiles?.username ?? null} size={40} className="mr-4" />
+                                    <span className={`font-medium truncate ${entry.user_id === user?.id ? 'text-fire-orange-start font-bold' : ''}`}>{entry.profiles?.username || 'Anonymous'}</span>
+                                </div>
+                                <div className="w-2/6 text-right">
+                                    <p className="font-semibold text-gray-800 dark:text-gray-200">{formatScore(Number(entry.score))} / {entry.total_questions}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatDuration(entry.time_taken_seconds ?? 0)}</p>
+                                </div>
+                            </Link>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const DailyChallenge: React.FC = () => {
+    const { user, setProfile } = useAuth();
+    const [date] = useState(() => challengeDate());
+    const challenge = useMemo(() => buildDailyChallenge(date), [date]);
+
+    const [state, setState] = useState<ChallengeState>('loading');
+    const [attempt, setAttempt] = useState<DailyChallengeAttempt | null>(null);
+    const [answers, setAnswers] = useState<(string | null)[]>([]);
+    const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+    const [timeLeft, setTimeLeft] = useState(DAILY_CHALLENGE_TIME_LIMIT_SECONDS);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+    const [leaderboardVersion, setLeaderboardVersion] = useState(0);
+
+    const settings: TestSettings = {
+        questionCount: challenge.questions.length,
+        difficulty: 'Medium',
+        timeLimitMode: 'per-test',
+        timeLimitSeconds: DAILY_CHALLENGE_TIME_LIMIT_SECONDS,
+        scoringScheme: DEFAULT_SCORING_SCHEME,
+        questionSource: 'bank',
+    };
+
+    useEffect(() => {
+        if (!user) return;
+        loadDailyAttempt(user.id, date)
+            .then(saved => {
+                setAttempt(saved);
+                if (!saved) {
+                    setState('intro');
+                } else if (saved.completed_at) {
+                    setState('done');
+                } else {
+                    // An attempt left open, e.g. by a reload, carries on with the clock still running
+                    resume(saved);
+                }
+            })
+            .catch((e: any) => {
+                console.error("Error fetching daily challenge attempt:", e.message);
+                setFetchError(e.message);
+            });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [user, date]);
+
+    useEffect(() => {
+        if (state !== 'in-progress' || !attempt) return;
+        const timer = setInterval(() => {
+            const left = DAILY_CHALLENGE_TIME_LIMIT_SECONDS - timeTaken(attempt);
+            setTimeLeft(left);
+            if (left <= 0) submit();
+        }, 1000);
+        return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [state, attempt, answers]);
+
+    useEffect(() => {
+        if (state === 'in-progress' && user) saveDailyAnswersLocally(user.id, date, answers);
+    }, [state, user, date, answers]);
+
+    const resume = (saved: DailyChallengeAttempt) => {
+        const savedAnswers = loadDailyAnswersLocally(saved.user_id, date);
+        setAnswers(savedAnswers?.length === challenge.questions.length ? savedAnswers : new Array(challenge.questions.length).fill(null));
+        setCurrentQuestionIndex(0);
+        setTimeLeft(DAILY_CHALLENGE_TIME_LIMIT_SECONDS - timeTaken(saved));
+        setState('in-progress');
+    };
+
+    const start = async () => {
+        if (!user) return;
+        setState('loading');
+        try {
+            const started = await startDailyChallenge(user.id, challenge, settings);
+            setAttempt(started);
+            if (started.completed_at) {
+                setState('done');
+            } else {
+                resume(started);
+            }
+        } catch (e: any) {
+            console.error("Failed to start the daily challenge", e);
+            setFetchError(e.message);
+        }
+    };
+
+    const submit = async () => {
+        if (!user || !attempt || state !== 'in-progress') return;
+        setState('submitting');
+        setSaveError(null);
+        try {
+            const { pointsEarned: points } = await submitDailyChallenge(attempt, challenge, settings, answers);
+            setPointsEarned(points);
+            if (points > 0) {
+                setProfile(prev => prev ? { ...prev, score: prev.score + points } : null);
+            }
+            clearDailyAnswersLocally(user.id, date);
+        } catch (e: any) {
+            console.error("Failed to submit the daily challenge", e);
+            setSaveError(e.message);
+        }
+        // The database recorded the score and time taken, or kept the first submission
+        try {
+            setAttempt(await loadDailyAttempt(user.id, date));
+        } catch (e: any) {
+            console.warn("Could not reload the daily challenge attempt:", e.message);
+        }
+        setLeaderboardVersion(v => v + 1);
+        setState('done');
+    };
+
+    const handleAnswer = (option: string) => {
+        const newAnswers = [...answers];
+        newAnswers[currentQuestionIndex] = option;
+        setAnswers(newAnswers);
+    };
+
+    if (fetchError) {
+        return <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />;
+    }
+
+    if (state === 'loading' || state === 'submitting') {
+        return (
+            <div className="flex flex-col items-center justify-center h-full">
+                <div className="w-16 h-16 border-4 border-t-transparent border-fire-orange-start rounded-full animate-spin"></div>
+                <p className="mt-4 text-lg">{state === 'submitting' ? 'Submitting your answers...' : 'Loading the daily challenge...'}</p>
+            </div>
+        );
+    }
+
+    if (state === 'in-progress') {
+        const answeredCount = answers.filter(a => a !== null).length;
+        const isLast = currentQuestionIndex === challenge.questions.length - 1;
+        return (
+            <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in">
+                <div className="flex justify-between items-center mb-4">
+                    <div className="flex items-center gap-4">
+                        <span className="text-sm font-semibold text-gray-500 dark:text-gray-400">
+                            Daily Challenge · {challenge.questionTopics[currentQuestionIndex]} · {answeredCount} of {challenge.questions.length} answered
+                        </span>
+                        <KeyboardShortcuts
+                            shortcuts={[
+                                optionShortcut,
+                                { keys: ['Enter', 'n'], display: 'Enter or N', label: 'Next question', action: isLast ? undefined : () => setCurrentQuestionIndex(i => i + 1) },
+                                { keys: ['p'], label: 'Previous question', action: currentQuestionIndex > 0 ? () => setCurrentQuestionIndex(i => i - 1) : undefined },
+                            ]}
+                        />
+                    </div>
+                    <div className="flex items-center text-lg font-semibold text-fire-red-end">
+                        <ClockIcon />
+                        <span className="ml-2">{formatDuration(Math.max(0, timeLeft))}</span>
+                    </div>
+                </div>
+
+                <QuestionCard
+                    key={currentQuestionIndex}
+                    question={challenge.questions[currentQuestionIndex]}
+                    index={currentQuestionIndex}
+                    total={challenge.questions.length}
+                    selectedAnswer={answers[currentQuestionIndex]}
+                    revealed={false}
+                    onSelect={handleAnswer}
+                    showExplanation={false}
+                    submitLabel="Save Answer"
+                    keyboard
+                />
+
+                <div className="flex justify-between gap-4 mt-6">
+                    <button onClick={() => setCurrentQuestionIndex(i => i - 1)} disabled={currentQuestionIndex === 0} className="px-6 py-2 font-semibold rounded-lg bg-gray-200 dark:bg-gray-600 disabled:opacity-50">
+                        Previous
+                    </button>
+                    {isLast ? (
+                        <button onClick={submit} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                            Submit Challenge
+                        </button>
+                    ) : (
+                        <button onClick={() => setCurrentQuestionIndex(i => i + 1)} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                            Next
+                        </button>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="animate-fade-in space-y-6">
+            <h1 className="text-3xl font-bold">Daily Challenge</h1>
+
+            {state === 'intro' ? (
+                <div className="p-6 bg-gradient-to-br from-fire-orange-start to-fire-red-end rounded-2xl shadow-lg text-white">
+                    <div className="flex items-center gap-2">
+                        <FlameIcon />
+                        <h2 className="text-xl font-bold">{new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', weekday: 'long', month: 'long', day: 'numeric' })}</h2>
+                    </div>
+                    <p className="mt-2 opacity-90">
+                        The same {challenge.questions.length} questions for everyone, across every topic, with {DAILY_CHALLENGE_TIME_LIMIT_SECONDS / 60} minutes on the clock.
+                        You get one attempt: once you start, the clock keeps running even if you leave the page.
+                    </p>
+                    <button onClick={start} disabled={challenge.questions.length === 0} className="mt-6 px-6 py-2 font-semibold bg-white text-fire-orange-start rounded-lg hover:bg-orange-50 transition disabled:opacity-50">
+                        Start Today's Challenge
+                    </button>
+                </div>
+            ) : attempt && (
+                <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg text-center">
+                    <h2 className="text-2xl font-bold text-fire-orange-start mb-2">You've completed today's challenge</h2>
+                    <p className="text-5xl font-bold mb-2">{formatScore(Number(attempt.score ?? 0))} / {attempt.total_questions}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">in {formatDuration(attempt.time_taken_seconds ?? 0)}</p>
+                    {saveError ? (
+                        <div className="my-6">
+                            <DatabaseSetupInstructions feature="weekly_progress" error={saveError} />
+                        </div>
+                    ) : pointsEarned !== null && (
+                        <p className="text-lg font-semibold text-green-500 mb-2">+{pointsEarned} XP Earned</p>
+                    )}
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">A new challenge starts at midnight UTC.</p>
+                    {attempt.test_result_id && (
+                        <Link to={`/history/${attempt.test_result_id}`} className="inline-block px-6 py-2 font-semibold rounded-lg bg-gray-200 dark:bg-gray-600 hover:opacity-90 transition-opacity">
+                            Review Answers
+                        </Link>
+                    )}
+                </div>
+            )}
+
+            <DailyLeaderboard date={date} refreshKey={leaderboardVersion} />
+        </div>
+    );
+};
+
+export default DailyChallenge;
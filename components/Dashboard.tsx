@@ -2,20 +2,68 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AppContexts';
 import { supabase } from '../services/supabase';
-import { TestResult } from '../types';
+import { xpForScore } from '../services/scoring';
+import { practicePath, topics } from '../services/topics';
+import { loadSkillRatings, recommendDifficulty, skillLevel, INITIAL_RATING } from '../services/skill';
+import { loadRecentTimedAnswers, TimedAnswer } from '../services/timing';
+import { SkillRating, SubtopicResult, TestResult } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { BrainCircuitIcon } from './Icons';
 import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import { SubtopicBreakdown, mergeSubtopicResults, subtopicAccuracy } from './SubtopicBreakdown';
+import { PaceBreakdown } from './PaceBreakdown';
 
 interface WeeklyProgress {
     name: string;
     score: number;
 }
 
+// Subtopics listed as needing work on the dashboard
+const WEAK_SUBTOPIC_COUNT = 5;
+
+// Days of answers the pace breakdown is taken over; a week is too few questions
+const PACE_WINDOW_DAYS = 30;
+
+// Rating range spanned by the skill bars
+const SKILL_BAR_MIN = 600;
+const SKILL_BAR_MAX = 1500;
+
+const SkillLevels: React.FC<{ ratings: SkillRating[] }> = ({ ratings }) => (
+    <div className="p-6 bg-white rounded-2xl shadow-lg dark:bg-gray-800">
+        <h2 className="text-xl font-bold mb-4">Skill Levels</h2>
+        <ul className="space-y-4">
+            {topics.map(topic => {
+                const saved = ratings.find(r => r.topic === topic.name);
+                const rating = saved ? Number(saved.rating) : INITIAL_RATING;
+                const width = Math.min(100, Math.max(4, ((rating - SKILL_BAR_MIN) / (SKILL_BAR_MAX - SKILL_BAR_MIN)) * 100));
+                return (
+                    <li key={topic.key}>
+                        <div className="flex items-baseline justify-between text-sm">
+                            <Link to={practicePath(topic.name)} className="font-semibold hover:text-fire-orange-start">{topic.name}</Link>
+                            <span className="text-gray-500 dark:text-gray-400">
+                                {saved ? `${skillLevel(rating)} · ${Math.round(rating)}` : 'Not rated yet'}
+                            </span>
+                        </div>
+                        <div className="mt-1 h-2 rounded-full bg-gray-200 dark:bg-gray-700">
+                            <div className={`h-2 rounded-full ${saved ? 'bg-gradient-to-r from-fire-orange-start to-fire-red-end' : 'bg-gray-300 dark:bg-gray-600'}`} style={{ width: `${width}%` }}></div>
+                        </div>
+                        {saved && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Next adaptive test: {recommendDifficulty(rating)}</p>}
+                    </li>
+                );
+            })}
+        </ul>
+    </div>
+);
+
 const Dashboard: React.FC = () => {
   const { profile, user } = useAuth();
   const [weeklyData, setWeeklyData] = useState<WeeklyProgress[]>([]);
-  const [suggestedTopic, setSuggestedTopic] = useState<{ name: string; key: string } | null>(null);
+  const [suggestedTopic, setSuggestedTopic] = useState<{ name: string; path: string } | null>(null);
+  const [weakSubtopics, setWeakSubtopics] = useState<SubtopicResult[]>([]);
+  const [skillRatings, setSkillRatings] = useState<SkillRating[]>([]);
+  const [skillError, setSkillError] = useState<string | null>(null);
+  const [timedAnswers, setTimedAnswers] = useState<TimedAnswer[]>([]);
+  const [paceError, setPaceError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
 
@@ -42,6 +90,25 @@ const Dashboard: React.FC = () => {
         } else if (results) {
             processWeeklyData(results);
             processSuggestions(results);
+            processSubtopics(results);
+        }
+
+        try {
+            setSkillRatings(await loadSkillRatings(user.id));
+            setSkillError(null);
+        } catch (e: any) {
+            console.error("Error fetching skill ratings:", e.message);
+            setSkillError(e.message);
+        }
+
+        try {
+            const paceWindowStart = new Date();
+            paceWindowStart.setDate(paceWindowStart.getDate() - PACE_WINDOW_DAYS);
+            setTimedAnswers(await loadRecentTimedAnswers(user.id, paceWindowStart));
+            setPaceError(null);
+        } catch (e: any) {
+            console.error("Error fetching question timings:", e.message);
+            setPaceError(e.message);
         }
         setLoading(false);
     };
@@ -58,7 +125,7 @@ const Dashboard: React.FC = () => {
 
         results.forEach(result => {
             const dayName = days[new Date(result.created_at).getDay()];
-            dailyScores[dayName] += result.score * 100; // 100 XP per correct answer
+            dailyScores[dayName] += xpForScore(result.score, result.scoring_scheme);
         });
 
         const chartData = Object.keys(dailyScores).map(day => ({
@@ -76,7 +143,7 @@ const Dashboard: React.FC = () => {
     
     const processSuggestions = async (results: TestResult[]) => {
         if (results.length === 0) {
-            setSuggestedTopic({ name: "Let's get started!", key: ''});
+            setSuggestedTopic({ name: "Let's get started!", path: ''});
             return;
         }
 
@@ -86,7 +153,7 @@ const Dashboard: React.FC = () => {
                 topicPerformance[r.topic] = { correct: 0, total: 0 };
             }
             topicPerformance[r.topic].correct += r.score;
-            topicPerformance[r.topic].total += r.total_questions;
+            topicPerformance[r.topic].total += r.max_score ?? r.total_questions;
         });
 
         let worstTopic: string | null = null;
@@ -101,10 +168,18 @@ const Dashboard: React.FC = () => {
         }
         
         if (worstTopic) {
-            setSuggestedTopic({ name: worstTopic, key: worstTopic.toLowerCase().replace(/\s+/g, '-') });
+            setSuggestedTopic({ name: worstTopic, path: practicePath(worstTopic) });
         }
     };
 
+    const processSubtopics = (results: TestResult[]) => {
+        const merged = mergeSubtopicResults(results.map(r => r.subtopic_results ?? []));
+        setWeakSubtopics(merged
+            .filter(r => r.attempted > 0)
+            .sort((a, b) => subtopicAccuracy(a) - subtopicAccuracy(b))
+            .slice(0, WEAK_SUBTOPIC_COUNT));
+    };
+
     fetchData();
   }, [user]);
 
@@ -115,7 +190,7 @@ const Dashboard: React.FC = () => {
     if (!suggestedTopic) {
         return <p className="mt-2 opacity-90">Complete some tests to get personalized suggestions!</p>;
     }
-    if (suggestedTopic.key === '') {
+    if (suggestedTopic.path === '') {
         return (
             <>
               <p className="mt-2 opacity-90">Ready to test your skills? Pick a topic and begin your journey.</p>
@@ -179,11 +254,31 @@ const Dashboard: React.FC = () => {
             <h2 className="text-xl font-bold">Personalized Suggestion</h2>
             {renderSuggestion()}
           </div>
-          <Link to={`/practice/${suggestedTopic?.key || ''}`} className="mt-6 w-full text-center px-4 py-2 font-semibold bg-white text-fire-orange-start rounded-lg hover:bg-orange-50 transition">
-            {suggestedTopic?.key === '' ? 'Choose a Topic' : 'Start Practicing'}
+          <Link to={suggestedTopic?.path || '/practice'} className="mt-6 w-full text-center px-4 py-2 font-semibold bg-white text-fire-orange-start rounded-lg hover:bg-orange-50 transition">
+            {suggestedTopic?.path === '' ? 'Choose a Topic' : 'Start Practicing'}
           </Link>
         </div>
       </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {skillError ? (
+          <div className="p-6 bg-white rounded-2xl shadow-lg dark:bg-gray-800">
+            <DatabaseSetupInstructions feature="weekly_progress" error={skillError} />
+          </div>
+        ) : !loading && (
+          <SkillLevels ratings={skillRatings} />
+        )}
+        {weakSubtopics.length > 0 && (
+          <SubtopicBreakdown results={weakSubtopics} title="Subtopics to Work On" />
+        )}
+        {paceError ? (
+          <div className="p-6 bg-white rounded-2xl shadow-lg dark:bg-gray-800">
+            <DatabaseSetupInstructions feature="weekly_progress" error={paceError} />
+          </div>
+        ) : timedAnswers.length > 0 && (
+          <PaceBreakdown answers={timedAnswers} title={`Pace (Last ${PACE_WINDOW_DAYS} Days)`} />
+        )}
+      </div>
     </div>
   );
 };
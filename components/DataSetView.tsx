@@ -0,0 +1,100 @@
+import React from 'react';
+import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, LabelList, ResponsiveContainer } from 'recharts';
+import { DataSet } from '../types';
+
+const SERIES_COLORS = ['#f97316', '#ef4444', '#3b82f6', '#10b981', '#8b5cf6', '#eab308'];
+
+const tooltipStyle = { backgroundColor: 'rgba(31, 41, 55, 0.8)', border: 'none', borderRadius: '0.5rem', color: '#fff' };
+
+// Every value is printed on the chart so answers can be read off exactly
+const DataSetView: React.FC<{ dataSet: DataSet }> = ({ dataSet }) => {
+    const rows = dataSet.categories.map((category, i) => ({
+        name: category,
+        ...Object.fromEntries(dataSet.series.map(series => [series.name, series.values[i]])),
+    }));
+    const showLegend = dataSet.series.length > 1;
+
+    const renderChart = () => {
+        switch (dataSet.kind) {
+            case 'bar':
+                return (
+                    <BarChart data={rows} margin={{ top: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(128, 128,128, 0.2)" />
+                        <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                        <YAxis axisLine={false} tickLine={false} />
+                        <Tooltip cursor={{ fill: 'rgba(249, 115, 22, 0.1)' }} contentStyle={tooltipStyle} />
+                        {showLegend && <Legend />}
+                        {dataSet.series.map((series, i) => (
+                            <Bar key={series.name} dataKey={series.name} fill={SERIES_COLORS[i % SERIES_COLORS.length]} radius={[4, 4, 0, 0]} isAnimationActive={false}>
+                                <LabelList dataKey={series.name} position="top" fontSize={12} />
+                            </Bar>
+                        ))}
+                    </BarChart>
+                );
+            case 'line':
+                return (
+                    <LineChart data={rows} margin={{ top: 20, left: 10, right: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(128, 128,128, 0.2)" />
+                        <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                        <YAxis axisLine={false} tickLine={false} />
+                        <Tooltip contentStyle={tooltipStyle} />
+                        {showLegend && <Legend />}
+                        {dataSet.series.map((series, i) => (
+                            <Line key={series.name} type="linear" dataKey={series.name} stroke={SERIES_COLORS[i % SERIES_COLORS.length]} strokeWidth={2} isAnimationActive={false}>
+                                <LabelList dataKey={series.name} position="top" fontSize={12} />
+                            </Line>
+                        ))}
+                    </LineChart>
+                );
+            case 'pie': {
+                const slices = dataSet.categories.map((category, i) => ({ name: category, value: dataSet.series[0]?.values[i] ?? 0 }));
+                return (
+                    <PieChart>
+                        <Tooltip contentStyle={tooltipStyle} />
+                        <Legend />
+                        <Pie data={slices} dataKey="value" nameKey="name" outerRadius="70%" label={({ name, value }) => `${name}: ${value}${dataSet.unit === '%' ? '%' : ''}`} isAnimationActive={false}>
+                            {slices.map((slice, i) => <Cell key={slice.name} fill={SERIES_COLORS[i % SERIES_COLORS.length]} />)}
+                        </Pie>
+                    </PieChart>
+                );
+            }
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <figure className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <figcaption className="font-semibold mb-3">
+                {dataSet.title}
+                {dataSet.unit && dataSet.unit !== '%' && <span className="text-sm font-normal text-gray-500 dark:text-gray-400"> ({dataSet.unit})</span>}
+            </figcaption>
+            {dataSet.kind === 'table' ? (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                            <tr>
+                                <th className="py-2 pr-4"></th>
+                                {dataSet.series.map(series => <th key={series.name} className="py-2 pr-4 font-medium">{series.name}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {dataSet.categories.map((category, i) => (
+                                <tr key={category} className="border-b border-gray-100 dark:border-gray-700/50">
+                                    <td className="py-2 pr-4 font-medium">{category}</td>
+                                    {dataSet.series.map(series => <td key={series.name} className="py-2 pr-4">{series.values[i]}</td>)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <div className="h-64">
+                    <ResponsiveContainer>{renderChart()}</ResponsiveContainer>
+                </div>
+            )}
+        </figure>
+    );
+};
+
+export default DataSetView;
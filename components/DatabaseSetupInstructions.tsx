@@ -44,7 +44,932 @@ $$ LANGUAGE plpgsql;`,
 CREATE POLICY "Users can manage their own test results."
 ON public.test_results
 FOR ALL
-USING (auth.uid() = user_id);`
+USING (auth.uid() = user_id);`,
+`-- 5. Create the 'test_responses' table to store every answer of a test,
+-- including the full question, so past attempts can be reviewed.
+CREATE TABLE test_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_result_id UUID NOT NULL REFERENCES test_results(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  question JSONB NOT NULL,
+  selected_answer TEXT,
+  is_correct BOOLEAN NOT NULL DEFAULT false,
+  UNIQUE (test_result_id, position)
+);
+
+ALTER TABLE public.test_responses ENABLE ROW LEVEL SECURITY;
+
+-- A response must also belong to one of the user's own results
+CREATE POLICY "Users can manage their own test responses."
+ON public.test_responses
+FOR ALL
+USING (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM test_results t WHERE t.id = test_result_id AND t.user_id = auth.uid())
+)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM test_results t WHERE t.id = test_result_id AND t.user_id = auth.uid())
+);`,
+`-- 6. Add a 'percentage' column so test history can be filtered by score.
+ALTER TABLE test_results ADD COLUMN percentage NUMERIC GENERATED ALWAYS AS (
+  CASE WHEN total_questions > 0 THEN score * 100.0 / total_questions ELSE 0 END
+) STORED;`,
+`-- 7. Add a 'settings' column to record how each test was configured
+-- (question count, difficulty and time limit).
+ALTER TABLE test_results ADD COLUMN settings JSONB;`,
+`-- 8. Support full-length mock exams split into timed sections.
+ALTER TABLE test_results ADD COLUMN mode TEXT NOT NULL DEFAULT 'practice';
+ALTER TABLE test_results ADD COLUMN section_results JSONB;
+ALTER TABLE test_responses ADD COLUMN section TEXT;`,
+`-- 9. Support scoring schemes with negative marking. Scores can now be
+-- fractional, and the percentage is taken against the maximum score.
+ALTER TABLE test_results DROP COLUMN percentage;
+ALTER TABLE test_results ALTER COLUMN score TYPE NUMERIC;
+ALTER TABLE test_results ADD COLUMN scoring_scheme TEXT NOT NULL DEFAULT 'standard';
+ALTER TABLE test_results ADD COLUMN max_score NUMERIC;
+ALTER TABLE test_results ADD COLUMN percentage NUMERIC GENERATED ALWAYS AS (
+  CASE WHEN COALESCE(max_score, total_questions) > 0
+    THEN score * 100.0 / COALESCE(max_score, total_questions) ELSE 0 END
+) STORED;`,
+`-- 10. (Optional) Create the 'test_sessions' table so unfinished
+-- Practice tests can be resumed on another device.
+CREATE TABLE test_sessions (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic_key TEXT NOT NULL,
+  state JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, topic_key)
+);
+
+ALTER TABLE public.test_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own test sessions."
+ON public.test_sessions
+FOR ALL
+USING (auth.uid() = user_id);`,
+`-- 11. Record the subtopic a test was restricted to, and the
+-- accuracy on each subtopic it covered.
+ALTER TABLE test_results ADD COLUMN subtopic TEXT;
+ALTER TABLE test_results ADD COLUMN subtopic_results JSONB;`,
+`-- 12. Create the 'skill_ratings' table for the per-topic skill
+-- estimate that adaptive difficulty is based on.
+CREATE TABLE skill_ratings (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL,
+  rating NUMERIC NOT NULL DEFAULT 1000,
+  attempts INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, topic)
+);
+
+ALTER TABLE public.skill_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own skill ratings."
+ON public.skill_ratings
+FOR ALL
+USING (auth.uid() = user_id);`,
+`-- 13. Create the 'review_items' table for the Mistake Notebook:
+-- missed questions scheduled for spaced-repetition review.
+CREATE TABLE review_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_key TEXT NOT NULL,
+  topic TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'practice',
+  question JSONB NOT NULL,
+  ease_factor NUMERIC NOT NULL DEFAULT 2.5,
+  interval_days INT NOT NULL DEFAULT 0,
+  repetitions INT NOT NULL DEFAULT 0,
+  lapses INT NOT NULL DEFAULT 0,
+  due_on DATE NOT NULL DEFAULT current_date,
+  mastered_at TIMESTAMPTZ,
+  last_reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_key)
+);
+
+CREATE INDEX review_items_due_idx ON review_items (user_id, due_on)
+WHERE mastered_at IS NULL;
+
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own review items."
+ON public.review_items
+FOR ALL
+USING (auth.uid() = user_id);`,
+`-- 14. Create the 'saved_questions' table for bookmarks and
+-- personal notes on questions.
+CREATE TABLE saved_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_key TEXT NOT NULL,
+  topic TEXT NOT NULL,
+  question JSONB NOT NULL,
+  bookmarked BOOLEAN NOT NULL DEFAULT true,
+  note TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_key)
+);
+
+ALTER TABLE public.saved_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own saved questions."
+ON public.saved_questions
+FOR ALL
+USING (auth.uid() = user_id);`,
+`-- 15. Create the 'daily_challenge_attempts' table. The primary key
+-- allows one attempt per user per day; everyone can read the
+-- completed attempts for the daily ranking.
+CREATE TABLE daily_challenge_attempts (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  challenge_date DATE NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  score NUMERIC,
+  total_questions INT NOT NULL,
+  time_taken_seconds INT,
+  test_result_id UUID REFERENCES test_results(id) ON DELETE SET NULL,
+  PRIMARY KEY (user_id, challenge_date)
+);
+
+ALTER TABLE public.daily_challenge_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Daily challenge attempts are viewable by everyone."
+ON public.daily_challenge_attempts
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can start their own daily challenge."
+ON public.daily_challenge_attempts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can complete their own daily challenge."
+ON public.daily_challenge_attempts
+FOR UPDATE
+USING (auth.uid() = user_id);`,
+`-- 16. Store the violation log of proctored tests.
+ALTER TABLE test_results ADD COLUMN proctoring_log JSONB;`,
+`-- 17. Create the 'question_reports' table. Users report questions;
+-- admins (profiles.is_admin) see every report and resolve it.
+ALTER TABLE profiles ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT false;
+
+-- Users may only create their profile and change their name and
+-- avatar, so nobody can make themselves an admin. XP still changes
+-- through increment_user_score, which now runs as its owner.
+REVOKE INSERT, UPDATE ON public.profiles FROM anon, authenticated;
+GRANT INSERT (id, username) ON public.profiles TO authenticated;
+GRANT UPDATE (username, avatar_url) ON public.profiles TO authenticated;
+ALTER FUNCTION increment_user_score(INT) SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE question_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('wrong-answer', 'ambiguous', 'typo', 'offensive')),
+  details TEXT NOT NULL DEFAULT '',
+  topic TEXT NOT NULL,
+  question JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'rejected')),
+  resolution_note TEXT,
+  regraded_results INT,
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.question_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report questions."
+ON public.question_reports
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users see their own reports and admins see all."
+ON public.question_reports
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin)
+);`,
+`-- 18. Create a function for admins to resolve a report. Accepting
+-- with a corrected answer regrades every saved response to the
+-- question with grade_response, recomputes the scores and breakdowns
+-- of the affected results and adjusts each user's XP.
+
+-- Mirrors isCorrectAnswer. Numeric answers are compared as numbers in
+-- the question's unit; anything unreadable is wrong.
+CREATE OR REPLACE FUNCTION grade_response(question JSONB, answer TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF answer IS NULL THEN
+    RETURN false;
+  END IF;
+  CASE COALESCE(question->>'type', 'single-choice')
+    WHEN 'numeric' THEN
+      RETURN abs(answer::NUMERIC - (question->>'correctAnswer')::NUMERIC)
+        <= COALESCE((question->>'tolerance')::NUMERIC, 0)
+          + 1e-9 * GREATEST(1, abs((question->>'correctAnswer')::NUMERIC));
+    WHEN 'multi-select' THEN
+      RETURN (SELECT array_agg(DISTINCT v ORDER BY v) FROM jsonb_array_elements_text(answer::JSONB) v)
+        IS NOT DISTINCT FROM
+        (SELECT array_agg(v ORDER BY v) FROM jsonb_array_elements_text(question->'correctAnswers') v);
+    WHEN 'ordering' THEN
+      RETURN answer::JSONB = question->'correctAnswers';
+    ELSE
+      RETURN answer = question->>'correctAnswer';
+  END CASE;
+EXCEPTION WHEN OTHERS THEN
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION resolve_question_report(
+  report_id UUID,
+  accept BOOLEAN,
+  corrected_answer TEXT DEFAULT NULL,
+  note TEXT DEFAULT NULL
+)
+RETURNS INT AS $$
+DECLARE
+  report question_reports%ROWTYPE;
+  question_type TEXT;
+  options JSONB;
+  selection JSONB;
+  answer_key JSONB;
+  affected UUID[];
+  old_xp JSONB;
+  result RECORD;
+  marks_correct NUMERIC;
+  marks_incorrect NUMERIC;
+  new_score NUMERIC;
+  xp_change INT;
+  regraded INT := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can resolve question reports';
+  END IF;
+
+  SELECT * INTO report FROM question_reports
+  WHERE id = report_id AND status = 'open'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % is not open', report_id;
+  END IF;
+
+  IF accept AND corrected_answer IS NOT NULL THEN
+    question_type := COALESCE(report.question->>'type', 'single-choice');
+    options := COALESCE(report.question->'options', '[]'::JSONB);
+
+    -- The corrected answer is encoded like a response to the question
+    CASE question_type
+      WHEN 'numeric' THEN
+        IF corrected_answer !~ '^-?[0-9]+([.][0-9]+)?([eE][-+]?[0-9]+)?$' THEN
+          RAISE EXCEPTION 'The corrected answer must be a number';
+        END IF;
+        answer_key := jsonb_build_object('correctAnswer', corrected_answer);
+      WHEN 'multi-select', 'ordering' THEN
+        BEGIN
+          selection := corrected_answer::JSONB;
+        EXCEPTION WHEN OTHERS THEN
+          RAISE EXCEPTION 'The corrected answer must be a list of options';
+        END;
+        IF jsonb_typeof(selection) IS DISTINCT FROM 'array'
+          OR jsonb_array_length(selection) = 0
+          OR EXISTS (SELECT 1 FROM jsonb_array_elements(selection) v WHERE NOT options @> jsonb_build_array(v))
+          OR (SELECT count(DISTINCT v) FROM jsonb_array_elements(selection) v) <> jsonb_array_length(selection)
+          OR (question_type = 'ordering' AND jsonb_array_length(selection) <> jsonb_array_length(options)) THEN
+          RAISE EXCEPTION 'The corrected answer must be a list of the question''s options';
+        END IF;
+        answer_key := jsonb_build_object(
+          'correctAnswers', selection,
+          'correctAnswer', (
+            SELECT string_agg(v, CASE question_type WHEN 'ordering' THEN ' → ' ELSE '; ' END ORDER BY n)
+            FROM jsonb_array_elements_text(selection) WITH ORDINALITY AS s(v, n)
+          )
+        );
+      ELSE
+        IF NOT options @> jsonb_build_array(corrected_answer) THEN
+          RAISE EXCEPTION 'The corrected answer must be one of the options';
+        END IF;
+        answer_key := jsonb_build_object('correctAnswer', corrected_answer);
+    END CASE;
+
+    -- Results with a response to the same question whose marking changes
+    SELECT array_agg(DISTINCT r.test_result_id) INTO affected
+    FROM test_responses r
+    WHERE CASE WHEN report.question ? 'id'
+        THEN r.question->>'id' = report.question->>'id'
+        ELSE r.question->>'question' = report.question->>'question' END
+      AND r.is_correct <> grade_response(r.question || answer_key, r.selected_answer);
+
+    -- Their XP before regrading, to adjust by the difference
+    SELECT jsonb_object_agg(id, test_xp(id)) INTO old_xp FROM unnest(affected) AS id;
+
+    -- Every saved copy of the question shows the corrected answer
+    UPDATE test_responses r
+    SET question = r.question || answer_key,
+        is_correct = grade_response(r.question || answer_key, r.selected_answer)
+    WHERE CASE WHEN report.question ? 'id'
+        THEN r.question->>'id' = report.question->>'id'
+        ELSE r.question->>'question' = report.question->>'question' END;
+
+    FOR result IN
+      SELECT * FROM test_results WHERE id = ANY(COALESCE(affected, '{}'))
+      FOR UPDATE
+    LOOP
+      marks_correct := CASE result.scoring_scheme WHEN 'negative-third' THEN 3 ELSE 1 END;
+      marks_incorrect := CASE result.scoring_scheme
+        WHEN 'negative-quarter' THEN -0.25 WHEN 'negative-third' THEN -1 ELSE 0 END;
+
+      SELECT ROUND(
+        count(*) FILTER (WHERE is_correct) * marks_correct
+        + count(*) FILTER (WHERE selected_answer IS NOT NULL AND NOT is_correct) * marks_incorrect, 2)
+      INTO new_score
+      FROM test_responses WHERE test_result_id = result.id;
+
+      -- Sections keep their time; older results without response sections keep their counts
+      UPDATE test_results
+      SET score = new_score,
+          section_results = (
+            SELECT jsonb_agg(CASE WHEN c.total > 0 THEN s.section || c.counts ELSE s.section END ORDER BY s.n)
+            FROM jsonb_array_elements(result.section_results) WITH ORDINALITY AS s(section, n)
+            CROSS JOIN LATERAL (
+              SELECT count(*) AS total, jsonb_build_object(
+                'score', ROUND(count(*) FILTER (WHERE is_correct) * marks_correct
+                  + count(*) FILTER (WHERE selected_answer IS NOT NULL AND NOT is_correct) * marks_incorrect, 2),
+                'correct', count(*) FILTER (WHERE is_correct)
+              ) AS counts
+              FROM test_responses
+              WHERE test_result_id = result.id AND section = s.section->>'topic'
+            ) c
+          ),
+          subtopic_results = (
+            SELECT jsonb_agg(CASE WHEN c.total > 0 THEN s.subtopic || c.counts ELSE s.subtopic END ORDER BY s.n)
+            FROM jsonb_array_elements(result.subtopic_results) WITH ORDINALITY AS s(subtopic, n)
+            CROSS JOIN LATERAL (
+              SELECT count(*) AS total, jsonb_build_object('correct', count(*) FILTER (WHERE is_correct)) AS counts
+              FROM test_responses
+              WHERE test_result_id = result.id AND question->>'subtopic' = s.subtopic->>'subtopic'
+            ) c
+          )
+      WHERE id = result.id;
+
+      UPDATE daily_challenge_attempts SET score = new_score WHERE test_result_id = result.id;
+
+      xp_change := test_xp(result.id) - (old_xp->>result.id::TEXT)::INT;
+      IF xp_change <> 0 THEN
+        INSERT INTO xp_events (user_id, source, amount, test_result_id, note, created_by)
+        VALUES (result.user_id, 'admin-adjustment', xp_change, result.id,
+                'Regraded after a question report', auth.uid());
+      END IF;
+
+      regraded := regraded + 1;
+    END LOOP;
+  END IF;
+
+  UPDATE question_reports
+  SET status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END,
+      resolution_note = note,
+      regraded_results = regraded,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = report_id;
+
+  RETURN regraded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;`,
+`-- 19. Grade tests on the server. A test is registered when it starts,
+-- and questions from the bank are swapped for the server's copy of it,
+-- which an admin loads with the "Sync Question Bank" button on the
+-- Question Reports page. Other questions keep the answer keys the
+-- browser sent and earn no XP. These tables have no policies, so they
+-- are only reached through the functions below.
+CREATE TABLE test_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  settings JSONB NOT NULL,
+  questions JSONB NOT NULL,
+  question_sections JSONB,
+  -- Per question, whether the server holds its answer key
+  server_keyed JSONB NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  submitted_at TIMESTAMPTZ,
+  xp_awarded INT,
+  test_result_id UUID REFERENCES test_results(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.test_attempts ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE test_responses ADD COLUMN server_keyed BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE daily_challenge_attempts
+ADD COLUMN test_attempt_id UUID REFERENCES test_attempts(id) ON DELETE SET NULL;
+
+CREATE TABLE question_bank (
+  id TEXT PRIMARY KEY,
+  topic TEXT NOT NULL,
+  question JSONB NOT NULL,
+  version INT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- No policies: the bank is read through start_test_attempt only
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+
+-- Replaces the bank with the given questions. Returns how many were saved.
+CREATE OR REPLACE FUNCTION sync_question_bank(bank_version INT, questions JSONB)
+RETURNS INT AS $$
+DECLARE
+  synced INT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can update the question bank';
+  END IF;
+
+  DELETE FROM question_bank
+  WHERE id NOT IN (SELECT q->>'id' FROM jsonb_array_elements(questions) q);
+
+  INSERT INTO question_bank (id, topic, question, version)
+  SELECT q->>'id', q->>'topic', q - 'topic', bank_version
+  FROM jsonb_array_elements(questions) q
+  ON CONFLICT (id) DO UPDATE
+  SET topic = EXCLUDED.topic, question = EXCLUDED.question,
+      version = EXCLUDED.version, updated_at = now();
+  GET DIAGNOSTICS synced = ROW_COUNT;
+  RETURN synced;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION start_test_attempt(
+  test_topic TEXT,
+  test_mode TEXT,
+  test_settings JSONB,
+  test_questions JSONB,
+  question_sections JSONB DEFAULT NULL,
+  challenge_day DATE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_id UUID;
+  existing daily_challenge_attempts%ROWTYPE;
+  question_count INT;
+  max_questions INT;
+  graded_questions JSONB;
+  keyed JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to take a test';
+  END IF;
+
+  -- The most questions each mode offers: 20 in practice, 20 in each of
+  -- the five mock exam sections, and two per topic in a daily challenge
+  max_questions := CASE test_mode
+    WHEN 'practice' THEN 20 WHEN 'mock-exam' THEN 100 WHEN 'daily-challenge' THEN 10 END;
+  IF max_questions IS NULL THEN
+    RAISE EXCEPTION 'Unknown test mode %', test_mode;
+  END IF;
+  IF jsonb_typeof(test_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'The questions of a test must be a list';
+  END IF;
+  question_count := jsonb_array_length(test_questions);
+  IF question_count NOT BETWEEN 1 AND max_questions THEN
+    RAISE EXCEPTION 'A % test has between 1 and % questions', test_mode, max_questions;
+  END IF;
+  IF (test_settings->>'questionCount')::INT IS DISTINCT FROM question_count THEN
+    RAISE EXCEPTION 'The test was set up for % questions but has %', test_settings->>'questionCount', question_count;
+  END IF;
+  IF question_sections IS NOT NULL
+    AND (jsonb_typeof(question_sections) IS DISTINCT FROM 'array'
+      OR jsonb_array_length(question_sections) <> question_count) THEN
+    RAISE EXCEPTION 'Every question needs a section';
+  END IF;
+  IF test_mode = 'mock-exam' AND (question_sections IS NULL OR EXISTS (
+    SELECT 1 FROM jsonb_array_elements_text(question_sections) section
+    GROUP BY section HAVING count(*) > 20
+  )) THEN
+    RAISE EXCEPTION 'A mock exam section has at most 20 questions';
+  END IF;
+
+  -- Questions from the bank are graded against the server's copy. The
+  -- keys of any other question come from the browser, so they earn no XP.
+  SELECT jsonb_agg(COALESCE(b.question, q.question) ORDER BY q.n),
+         jsonb_agg(b.id IS NOT NULL ORDER BY q.n)
+  INTO graded_questions, keyed
+  FROM jsonb_array_elements(test_questions) WITH ORDINALITY AS q(question, n)
+  LEFT JOIN question_bank b ON b.id = q.question->>'id';
+
+  IF test_mode = 'daily-challenge' THEN
+    IF challenge_day IS DISTINCT FROM (now() AT TIME ZONE 'utc')::DATE THEN
+      RAISE EXCEPTION 'The daily challenge for % is closed', challenge_day;
+    END IF;
+    SELECT * INTO existing FROM daily_challenge_attempts
+    WHERE user_id = auth.uid() AND challenge_date = challenge_day;
+    IF FOUND THEN
+      IF existing.test_attempt_id IS NULL THEN
+        RAISE EXCEPTION 'Today''s challenge has already been taken';
+      END IF;
+      RETURN existing.test_attempt_id;
+    END IF;
+  END IF;
+
+  INSERT INTO test_attempts (user_id, topic, mode, settings, questions, question_sections, server_keyed)
+  VALUES (auth.uid(), test_topic, test_mode, test_settings, graded_questions, question_sections, keyed)
+  RETURNING id INTO new_id;
+
+  IF test_mode = 'daily-challenge' THEN
+    INSERT INTO daily_challenge_attempts (user_id, challenge_date, total_questions, test_attempt_id)
+    VALUES (auth.uid(), challenge_day, question_count, new_id);
+  END IF;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Each day's challenge is kept as it was first started. Every later
+-- attempt must register the same bank questions, so nobody can rank
+-- with an easier or longer set of their own.
+CREATE TABLE daily_challenges (
+  challenge_date DATE PRIMARY KEY,
+  question_ids JSONB NOT NULL,
+  question_topics JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.daily_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Runs after start_test_attempt has swapped bank questions for the
+-- server's copy. A challenge has two bank questions from every topic in
+-- the bank, each in its own topic's section.
+CREATE OR REPLACE FUNCTION check_daily_challenge()
+RETURNS TRIGGER AS $$
+DECLARE
+  today DATE := (now() AT TIME ZONE 'utc')::DATE;
+  ids JSONB;
+  challenge daily_challenges%ROWTYPE;
+BEGIN
+  IF NEW.question_sections IS NULL OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(NEW.questions) WITH ORDINALITY AS q(question, n)
+    LEFT JOIN question_bank b ON b.id = q.question->>'id'
+    WHERE b.id IS NULL OR b.topic IS DISTINCT FROM NEW.question_sections->>(q.n - 1)::INT
+  ) THEN
+    RAISE EXCEPTION 'A daily challenge is made of bank questions, each in its own topic';
+  END IF;
+
+  SELECT jsonb_agg(question->>'id' ORDER BY n) INTO ids
+  FROM jsonb_array_elements(NEW.questions) WITH ORDINALITY AS q(question, n);
+
+  IF (SELECT count(DISTINCT id) FROM jsonb_array_elements_text(ids) id) <> jsonb_array_length(ids)
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(NEW.question_sections) section
+      GROUP BY section HAVING count(*) <> 2
+    )
+    OR (SELECT count(DISTINCT section) FROM jsonb_array_elements_text(NEW.question_sections) section)
+      <> (SELECT count(DISTINCT topic) FROM question_bank) THEN
+    RAISE EXCEPTION 'A daily challenge has two different questions from every topic';
+  END IF;
+
+  INSERT INTO daily_challenges (challenge_date, question_ids, question_topics)
+  VALUES (today, ids, NEW.question_sections)
+  ON CONFLICT (challenge_date) DO NOTHING;
+
+  SELECT * INTO challenge FROM daily_challenges WHERE challenge_date = today;
+  IF challenge.question_ids <> ids THEN
+    RAISE EXCEPTION 'These are not the questions of today''s challenge';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_daily_challenge
+BEFORE INSERT ON test_attempts
+FOR EACH ROW
+WHEN (NEW.mode = 'daily-challenge')
+EXECUTE FUNCTION check_daily_challenge();`,
+`-- 20. Create a function that grades a submitted test, saves the
+-- result and awards XP in one transaction. Each attempt can be
+-- submitted once, and only after a plausible amount of time.
+
+-- The XP a graded test earns: 100 for each full mark, counting only
+-- questions the server holds the answer key for, and at most 2,000.
+CREATE OR REPLACE FUNCTION test_xp(result_id UUID)
+RETURNS INT AS $$
+  SELECT LEAST(2000, GREATEST(0, ROUND(COALESCE(SUM(
+      CASE WHEN r.is_correct THEN m.correct WHEN r.selected_answer IS NOT NULL THEN m.incorrect ELSE 0 END
+    ), 0) / m.correct * 100)))::INT
+  FROM test_results t
+  CROSS JOIN LATERAL (
+    SELECT CASE t.scoring_scheme WHEN 'negative-third' THEN 3 ELSE 1 END AS correct,
+           CASE t.scoring_scheme WHEN 'negative-quarter' THEN -0.25 WHEN 'negative-third' THEN -1 ELSE 0 END AS incorrect
+  ) m
+  LEFT JOIN test_responses r ON r.test_result_id = t.id AND r.server_keyed
+  WHERE t.id = result_id
+  GROUP BY m.correct;
+$$ LANGUAGE sql STABLE;
+
+-- Records the XP of a submitted test, within 6,000 for all of a
+-- user's tests on the same (UTC) day. Returns the XP awarded.
+CREATE OR REPLACE FUNCTION award_test_xp(attempt_id UUID, points INT)
+RETURNS INT AS $$
+DECLARE
+  attempt test_attempts%ROWTYPE;
+  earned_today INT;
+  awarded INT;
+BEGIN
+  -- Taken first, so two submissions at once cannot both stay under the cap
+  PERFORM 1 FROM profiles WHERE id = auth.uid() FOR UPDATE;
+
+  SELECT COALESCE(SUM(xp_awarded), 0) INTO earned_today FROM test_attempts
+  WHERE user_id = auth.uid()
+    AND submitted_at >= date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc';
+
+  awarded := GREATEST(0, LEAST(points, 6000 - earned_today));
+  UPDATE test_attempts SET xp_awarded = awarded WHERE id = attempt_id;
+  IF awarded > 0 THEN
+    SELECT * INTO attempt FROM test_attempts WHERE id = attempt_id;
+    INSERT INTO xp_events (user_id, source, amount, test_attempt_id, test_result_id)
+    VALUES (auth.uid(), CASE attempt.mode WHEN 'mock-exam' THEN 'mock-exam'
+              WHEN 'daily-challenge' THEN 'daily-challenge' ELSE 'practice' END,
+            awarded, attempt_id, attempt.test_result_id);
+  END IF;
+  RETURN awarded;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION award_test_xp(UUID, INT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_test_attempt(
+  attempt_id UUID,
+  answers JSONB,
+  section_times JSONB DEFAULT NULL,
+  violations JSONB DEFAULT NULL,
+  question_times JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  attempt test_attempts%ROWTYPE;
+  scheme TEXT;
+  marks_correct NUMERIC;
+  marks_incorrect NUMERIC;
+  question_count INT;
+  answered INT;
+  new_result_id UUID;
+  total NUMERIC;
+  sections JSONB;
+  subtopics JSONB;
+  points INT;
+BEGIN
+  SELECT * INTO attempt FROM test_attempts
+  WHERE id = attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test attempt % does not exist', attempt_id;
+  END IF;
+  IF attempt.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This test has already been submitted';
+  END IF;
+
+  question_count := jsonb_array_length(attempt.questions);
+  IF jsonb_typeof(answers) IS DISTINCT FROM 'array' OR jsonb_array_length(answers) <> question_count THEN
+    RAISE EXCEPTION 'Expected % answers', question_count;
+  END IF;
+
+  -- Nobody reads and answers a question in under a second
+  SELECT count(*) INTO answered FROM jsonb_array_elements(answers) AS a(answer) WHERE answer <> 'null'::JSONB;
+  IF now() - attempt.started_at < answered * interval '1 second' THEN
+    RAISE EXCEPTION 'Answers were submitted too quickly to be accepted';
+  END IF;
+
+  scheme := COALESCE(attempt.settings->>'scoringScheme', 'standard');
+  marks_correct := CASE scheme WHEN 'negative-third' THEN 3 ELSE 1 END;
+  marks_incorrect := CASE scheme
+    WHEN 'negative-quarter' THEN -0.25 WHEN 'negative-third' THEN -1 ELSE 0 END;
+
+  INSERT INTO test_results (
+    user_id, topic, mode, scoring_scheme, score, max_score, total_questions,
+    settings, subtopic, proctoring_log
+  )
+  VALUES (
+    auth.uid(), attempt.topic, attempt.mode, scheme, 0, question_count * marks_correct, question_count,
+    attempt.settings, attempt.settings->>'subtopic', violations
+  )
+  RETURNING id INTO new_result_id;
+
+  INSERT INTO test_responses (
+    test_result_id, user_id, position, section, question, selected_answer, is_correct, server_keyed,
+    time_spent_seconds
+  )
+  SELECT new_result_id, auth.uid(), q.n - 1,
+         attempt.question_sections->>(q.n - 1)::INT,
+         q.question,
+         answers->>(q.n - 1)::INT,
+         grade_response(q.question, answers->>(q.n - 1)::INT),
+         COALESCE((attempt.server_keyed->>(q.n - 1)::INT)::BOOLEAN, false),
+         (question_times->>(q.n - 1)::INT)::INT
+  FROM jsonb_array_elements(attempt.questions) WITH ORDINALITY AS q(question, n);
+
+  SELECT ROUND(
+    count(*) FILTER (WHERE is_correct) * marks_correct
+    + count(*) FILTER (WHERE selected_answer IS NOT NULL AND NOT is_correct) * marks_incorrect, 2)
+  INTO total
+  FROM test_responses WHERE test_result_id = new_result_id;
+
+  -- Sections and subtopics are listed in the order they first appear
+  IF section_times IS NOT NULL THEN
+    SELECT jsonb_agg(result ORDER BY first_position) INTO sections
+    FROM (
+      SELECT min(position) AS first_position, jsonb_build_object(
+        'topic', section,
+        'score', ROUND(count(*) FILTER (WHERE is_correct) * marks_correct
+          + count(*) FILTER (WHERE selected_answer IS NOT NULL AND NOT is_correct) * marks_incorrect, 2),
+        'maxScore', count(*) * marks_correct,
+        'correct', count(*) FILTER (WHERE is_correct),
+        'totalQuestions', count(*),
+        'attempted', count(selected_answer),
+        'timeSpentSeconds', COALESCE((section_times->>section)::INT, 0)
+      ) AS result
+      FROM test_responses WHERE test_result_id = new_result_id
+      GROUP BY section
+    ) s;
+  END IF;
+
+  SELECT jsonb_agg(result ORDER BY first_position) INTO subtopics
+  FROM (
+    SELECT min(position) AS first_position, jsonb_build_object(
+      'subtopic', question->>'subtopic',
+      'correct', count(*) FILTER (WHERE is_correct),
+      'attempted', count(selected_answer),
+      'totalQuestions', count(*)
+    ) AS result
+    FROM test_responses
+    WHERE test_result_id = new_result_id AND question->>'subtopic' IS NOT NULL
+    GROUP BY question->>'subtopic'
+  ) s;
+
+  UPDATE test_results
+  SET score = total, section_results = sections, subtopic_results = subtopics
+  WHERE id = new_result_id;
+
+  UPDATE test_attempts
+  SET submitted_at = now(), test_result_id = new_result_id
+  WHERE id = attempt_id;
+
+  points := award_test_xp(attempt_id, test_xp(new_result_id));
+
+  IF attempt.mode = 'daily-challenge' THEN
+    UPDATE daily_challenge_attempts
+    SET completed_at = now(),
+        score = total,
+        time_taken_seconds = LEAST(
+          COALESCE((attempt.settings->>'timeLimitSeconds')::INT, 2147483647),
+          EXTRACT(EPOCH FROM now() - started_at)::INT),
+        test_result_id = new_result_id
+    WHERE test_attempt_id = attempt_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'resultId', new_result_id,
+    'score', total,
+    'maxScore', question_count * marks_correct,
+    'pointsEarned', points
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;`,
+`-- 21. Now that results are graded on the server, stop clients from
+-- writing results, XP or daily challenge scores themselves.
+REVOKE EXECUTE ON FUNCTION increment_user_score(INT) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY "Users can manage their own test results." ON public.test_results;
+CREATE POLICY "Users can view their own test results."
+ON public.test_results
+FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY "Users can manage their own test responses." ON public.test_responses;
+CREATE POLICY "Users can view their own test responses."
+ON public.test_responses
+FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY "Users can start their own daily challenge." ON public.daily_challenge_attempts;
+DROP POLICY "Users can complete their own daily challenge." ON public.daily_challenge_attempts;`,
+`-- 22. Create the 'xp_events' ledger. Every change to a user's XP is
+-- an event, and profiles.score is kept as the sum of their events.
+CREATE TABLE xp_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL
+    CHECK (source IN ('practice', 'mock-exam', 'voice-test', 'daily-challenge', 'admin-adjustment')),
+  amount INT NOT NULL,
+  test_attempt_id UUID REFERENCES test_attempts(id) ON DELETE SET NULL,
+  test_result_id UUID REFERENCES test_results(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX xp_events_user_idx ON xp_events (user_id, created_at DESC);
+
+ALTER TABLE public.xp_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "XP events are viewable by everyone."
+ON public.xp_events
+FOR SELECT
+USING (true);
+
+-- XP earned before the ledger existed becomes one opening event
+INSERT INTO xp_events (user_id, source, amount, note)
+SELECT id, 'admin-adjustment', score, 'XP earned before the activity history'
+FROM profiles
+WHERE score <> 0;
+
+CREATE OR REPLACE FUNCTION apply_xp_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE profiles SET score = score + NEW.amount WHERE id = NEW.user_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER xp_events_apply
+AFTER INSERT ON xp_events
+FOR EACH ROW EXECUTE FUNCTION apply_xp_event();
+
+-- Admins correct a user's XP with an event of its own
+CREATE OR REPLACE FUNCTION adjust_user_xp(target_user UUID, amount INT, note TEXT)
+RETURNS INT AS $$
+DECLARE
+  new_score INT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can adjust XP';
+  END IF;
+  IF amount = 0 OR COALESCE(trim(note), '') = '' THEN
+    RAISE EXCEPTION 'An adjustment needs a non-zero amount and a note';
+  END IF;
+
+  INSERT INTO xp_events (user_id, source, amount, note, created_by)
+  VALUES (target_user, 'admin-adjustment', amount, trim(note), auth.uid());
+
+  SELECT score INTO new_score FROM profiles WHERE id = target_user;
+  RETURN new_score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Resets a user's XP to the sum of their ledger, e.g. after a
+-- manual edit of profiles.score. Returns the recomputed score.
+CREATE OR REPLACE FUNCTION recompute_user_xp(target_user UUID)
+RETURNS INT AS $$
+DECLARE
+  new_score INT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can recompute XP';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO new_score FROM xp_events WHERE user_id = target_user;
+  UPDATE profiles SET score = new_score WHERE id = target_user;
+  RETURN new_score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION increment_user_score(INT);`,
+`-- 23. Record the time spent on each question. Voice tests are judged
+-- in the browser and award no XP, so they are saved by the client to
+-- a table of their own, one row per test with every response.
+ALTER TABLE test_responses ADD COLUMN time_spent_seconds INT;
+
+CREATE TABLE voice_test_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL,
+  subtopic TEXT,
+  difficulty TEXT NOT NULL,
+  score INT NOT NULL,
+  total_questions INT NOT NULL,
+  responses JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX voice_test_results_user_idx ON voice_test_results (user_id, created_at DESC);
+
+ALTER TABLE public.voice_test_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own voice test results."
+ON public.voice_test_results
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save their own voice test results."
+ON public.voice_test_results
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);`
         ]
     },
     leaderboard: {
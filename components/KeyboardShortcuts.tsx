@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { XIcon } from './Icons';
+
+export interface Shortcut {
+    // Values of KeyboardEvent.key, matched without case
+    keys: string[];
+    // How the keys are shown in the help overlay, e.g. "1–4 or A–D"
+    display?: string;
+    label: string;
+    // Shortcuts without an action are handled elsewhere and only listed
+    action?: () => void;
+}
+
+// Listed by pages whose QuestionCard takes answers from the keyboard
+export const optionShortcut: Shortcut = { keys: [], display: '1–4 or A–D', label: 'Pick an option (Enter saves a multi-select or ordering answer)' };
+
+/** Shortcuts picking each option: 1–9, and A–D for the first four. */
+export const optionShortcuts = (options: string[], pick: (option: string) => void): Shortcut[] =>
+    options.slice(0, 9).map((option, i) => ({
+        keys: i < 4 ? [String(i + 1), 'abcd'[i]] : [String(i + 1)],
+        label: option,
+        action: () => pick(option),
+    }));
+
+// For aria-keyshortcuts, which lists alternatives separated by spaces
+export const optionKeyLabel = (index: number) => index < 4 ? `${index + 1} ${'ABCD'[index]}` : index < 9 ? `${index + 1}` : undefined;
+
+const isTypingTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Keys pressed in a dialog, such as the shortcut overlay, are the dialog's own
+const isInDialog = (target: EventTarget | null) =>
+    target instanceof HTMLElement && !!target.closest('[aria-modal="true"]');
+
+// Enter and Space already activate a focused button or link
+const activatesNatively = (event: KeyboardEvent) =>
+    (event.key === 'Enter' || event.key === ' ') && event.target instanceof HTMLElement && !!event.target.closest('button, a, summary');
+
+/**
+ * Runs the action of a shortcut when one of its keys is pressed, unless the
+ * user is typing, is in a dialog or holds a modifier. A handled key is not
+ * passed on, so an answer input can claim Enter before the page does: `first`
+ * listens in the capture phase, ahead of the other shortcuts.
+ */
+export const useKeyboardShortcuts = (shortcuts: Shortcut[], active = true, first = false) => {
+    // The latest shortcuts are read when a key is pressed, so the listener is not re-added on every render
+    const shortcutsRef = useRef(shortcuts);
+    shortcutsRef.current = shortcuts;
+
+    useEffect(() => {
+        if (!active) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+            if (isTypingTarget(event.target) || isInDialog(event.target) || activatesNatively(event)) return;
+            const key = event.key.toLowerCase();
+            const shortcut = shortcutsRef.current.find(s => s.action && s.keys.some(k => k.toLowerCase() === key));
+            if (!shortcut) return;
+            event.preventDefault();
+            shortcut.action!();
+        };
+        window.addEventListener('keydown', handleKeyDown, first);
+        return () => window.removeEventListener('keydown', handleKeyDown, first);
+    }, [active, first]);
+};
+
+const ShortcutOverlay: React.FC<{ shortcuts: Shortcut[]; onClose: () => void }> = ({ shortcuts, onClose }) => {
+    const closeRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        // Focus goes back to where it was when the overlay closes
+        const previous = document.activeElement as HTMLElement | null;
+        closeRef.current?.focus();
+        return () => previous?.focus();
+    }, []);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="shortcut-overlay-title"
+                onClick={e => e.stopPropagation()}
+                onKeyDown={e => {
+                    if (e.key === 'Escape' || e.key === '?') onClose();
+                }}
+                className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-11/12 max-w-md text-left"
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 id="shortcut-overlay-title" className="text-lg font-bold">Keyboard Shortcuts</h3>
+                    <button ref={closeRef} onClick={onClose} aria-label="Close" className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+                        <XIcon />
+                    </button>
+                </div>
+                <dl className="space-y-2 text-sm">
+                    {shortcuts.map(shortcut => (
+                        <div key={shortcut.label} className="flex items-start gap-4">
+                            <dt className="w-28 flex-shrink-0">
+                                <kbd className="px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 font-mono text-xs">
+                                    {shortcut.display ?? shortcut.keys.join(' or ')}
+                                </kbd>
+                            </dt>
+                            <dd className="text-gray-600 dark:text-gray-300">{shortcut.label}</dd>
+                        </div>
+                    ))}
+                </dl>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Turns on a test page's shortcuts and shows a button, and the ? key, for
+ * the overlay listing them. Escape closes the overlay.
+ */
+const KeyboardShortcuts: React.FC<{ shortcuts: Shortcut[]; active?: boolean }> = ({ shortcuts, active = true }) => {
+    const [showHelp, setShowHelp] = useState(false);
+    const helpShortcut: Shortcut = { keys: ['?'], label: 'Show or hide this list', action: () => setShowHelp(show => !show) };
+
+    useKeyboardShortcuts([...shortcuts, helpShortcut], active);
+
+    return (
+        <>
+            <button
+                onClick={() => setShowHelp(true)}
+                aria-keyshortcuts="?"
+                className="hidden sm:inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-fire-orange-start"
+            >
+                <kbd className="px-1.5 rounded border border-gray-300 dark:border-gray-600 font-mono">?</kbd>
+                Shortcuts
+            </button>
+            {showHelp && <ShortcutOverlay shortcuts={[...shortcuts, helpShortcut]} onClose={() => setShowHelp(false)} />}
+        </>
+    );
+};
+
+export default KeyboardShortcuts;
@@ -6,6 +6,8 @@ import { Profile } from '../types';
 import { TrophyIcon, FlameIcon } from './Icons';
 import Avatar from './Avatar';
 import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import { DailyLeaderboard } from './DailyChallenge';
+import { challengeDate } from '../services/dailyChallenge';
 
 interface LeaderboardUser extends Profile {
     rank: number;
@@ -142,6 +144,9 @@ const Leaderboard: React.FC = () => {
                     </>
                 )}
             </div>
+            <div className="mt-6">
+                <DailyLeaderboard date={challengeDate()} />
+            </div>
         </div>
     );
 };
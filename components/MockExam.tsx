@@ -0,0 +1,535 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { loadTestQuestions } from '../services/questionProvider';
+import { validationNotice } from '../services/questionValidation';
+import { startTestAttempt, submitTestAttempt, TestAttempt } from '../services/testResults';
+import { scoreTest, scoringSchemes, formatScore, xpForScore, MAX_XP_PER_TEST, MAX_XP_PER_DAY, DEFAULT_SCORING_SCHEME } from '../services/scoring';
+import { useAuth } from '../contexts/AppContexts';
+import { Question, Difficulty, SectionResult, TestSettings, ScoringSchemeId, QuestionSource } from '../types';
+import { ArrowLeftIcon, ClockIcon, FlagIcon, XIcon } from './Icons';
+import { questionSources } from './Practice';
+import { topics } from '../services/topics';
+import QuestionCard from './QuestionCard';
+import KeyboardShortcuts, { optionShortcut } from './KeyboardShortcuts';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+
+type ExamPhase = 'setup' | 'loading' | 'in-progress' | 'completed';
+type PaletteStatus = 'not-visited' | 'not-answered' | 'answered' | 'marked' | 'answered-marked';
+
+interface ExamSection {
+    topic: string;
+    questions: Question[];
+    answers: (string | null)[];
+    marked: boolean[];
+    visited: boolean[];
+    timeSpentSeconds: number;
+}
+
+const difficulties: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+const paletteClasses: Record<PaletteStatus, string> = {
+    'not-visited': 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+    'not-answered': 'bg-red-500 text-white',
+    'answered': 'bg-green-500 text-white',
+    'marked': 'bg-purple-500 text-white',
+    'answered-marked': 'bg-purple-500 text-white ring-2 ring-green-500',
+};
+
+const paletteLabels: Record<PaletteStatus, string> = {
+    'not-visited': 'Not Visited',
+    'not-answered': 'Not Answered',
+    'answered': 'Answered',
+    'marked': 'Marked for Review',
+    'answered-marked': 'Answered & Marked',
+};
+
+const getPaletteStatus = (section: ExamSection, index: number): PaletteStatus => {
+    const answered = section.answers[index] !== null;
+    if (section.marked[index]) return answered ? 'answered-marked' : 'marked';
+    if (answered) return 'answered';
+    return section.visited[index] ? 'not-answered' : 'not-visited';
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${('0' + seconds % 60).slice(-2)}`;
+
+const MockExam: React.FC = () => {
+    const navigate = useNavigate();
+    const { user, setProfile } = useAuth();
+
+    // Exam setup state
+    const [selectedTopics, setSelectedTopics] = useState<string[]>(topics.slice(0, 3).map(t => t.name));
+    const [questionsPerSection, setQuestionsPerSection] = useState(5);
+    const [minutesPerSection, setMinutesPerSection] = useState(10);
+    const [difficulty, setDifficulty] = useState<Difficulty>('Medium');
+    const [scoringScheme, setScoringScheme] = useState<ScoringSchemeId>(DEFAULT_SCORING_SCHEME);
+    const [questionSource, setQuestionSource] = useState<QuestionSource>('ai');
+
+    // Exam execution state
+    const [phase, setPhase] = useState<ExamPhase>('setup');
+    const [sections, setSections] = useState<ExamSection[]>([]);
+    const [currentSectionIndex, setCurrentSectionIndex] = useState(0);
+    const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+    const [timeLeft, setTimeLeft] = useState(0);
+    const [showConfirmSubmitModal, setShowConfirmSubmitModal] = useState(false);
+    const [showConfirmEndModal, setShowConfirmEndModal] = useState(false);
+
+    // Result state
+    const [sectionResults, setSectionResults] = useState<SectionResult[]>([]);
+    // XP the server awarded; null until the exam is saved
+    const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [savedResultId, setSavedResultId] = useState<string | null>(null);
+    // The exam as registered for grading, and why registering failed if it did
+    const [attempt, setAttempt] = useState<TestAttempt | null>(null);
+    const [attemptError, setAttemptError] = useState<string | null>(null);
+    // How the AI questions of the exam fared in validation
+    const [questionNotice, setQuestionNotice] = useState<string | null>(null);
+
+    const sectionTimeLimit = minutesPerSection * 60;
+
+    useEffect(() => {
+        if (phase !== 'in-progress') return;
+        if (timeLeft > 0) {
+            const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
+            return () => clearTimeout(timer);
+        }
+        // Section time is up: it is submitted as is
+        submitSection();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [timeLeft, phase]);
+
+    const toggleTopic = (topicName: string) => {
+        setSelectedTopics(prev => prev.includes(topicName)
+            ? prev.filter(t => t !== topicName)
+            // Keep sections in the order topics are listed
+            : topics.map(t => t.name).filter(t => t === topicName || prev.includes(t)));
+    };
+
+    const startExam = async () => {
+        setPhase('loading');
+        setSaveError(null);
+        setSavedResultId(null);
+        const batches = await Promise.all(
+            selectedTopics.map(topic => loadTestQuestions(topic, questionsPerSection, difficulty, questionSource))
+        );
+        const generated = batches.map(batch => batch.questions);
+        setQuestionNotice(validationNotice({
+            dropped: batches.reduce((acc, batch) => acc + batch.dropped, 0),
+            repaired: batches.reduce((acc, batch) => acc + batch.repaired, 0),
+        }));
+        if (generated.some(questions => questions.length === 0)) {
+            alert("Could not load questions for every section. Please try again.");
+            setPhase('setup');
+            return;
+        }
+
+        // The exam can still be taken if registering fails; the error is shown with the results
+        setAttempt(null);
+        setAttemptError(null);
+        if (user) {
+            const settings: TestSettings = {
+                questionCount: generated.reduce((acc, questions) => acc + questions.length, 0),
+                difficulty,
+                timeLimitMode: 'per-section',
+                timeLimitSeconds: sectionTimeLimit,
+                scoringScheme,
+                questionSource,
+                sections: selectedTopics,
+            };
+            try {
+                setAttempt(await startTestAttempt({
+                    userId: user.id,
+                    topic: 'Mock Exam',
+                    mode: 'mock-exam',
+                    settings,
+                    questions: generated.flat(),
+                    questionSections: selectedTopics.flatMap((topic, i) => generated[i].map(() => topic)),
+                }));
+            } catch (e: any) {
+                console.error("Failed to register the mock exam for grading", e);
+                setAttemptError(e.message);
+            }
+        }
+
+        setSections(selectedTopics.map((topic, i) => ({
+            topic,
+            questions: generated[i],
+            answers: new Array(generated[i].length).fill(null),
+            marked: new Array(generated[i].length).fill(false),
+            visited: generated[i].map((_, q) => q === 0),
+            timeSpentSeconds: 0,
+        })));
+        setCurrentSectionIndex(0);
+        setCurrentQuestionIndex(0);
+        setTimeLeft(sectionTimeLimit);
+        setPhase('in-progress');
+    };
+
+    const updateCurrentSection = (update: (section: ExamSection) => ExamSection) => {
+        setSections(prev => prev.map((section, i) => i === currentSectionIndex ? update(section) : section));
+    };
+
+    const goToQuestion = (index: number) => {
+        setCurrentQuestionIndex(index);
+        updateCurrentSection(section => ({ ...section, visited: section.visited.map((v, i) => v || i === index) }));
+    };
+
+    const selectAnswer = (option: string) => {
+        updateCurrentSection(section => ({ ...section, answers: section.answers.map((a, i) => i === currentQuestionIndex ? option : a) }));
+    };
+
+    const clearResponse = () => {
+        updateCurrentSection(section => ({ ...section, answers: section.answers.map((a, i) => i === currentQuestionIndex ? null : a) }));
+    };
+
+    const toggleMarkForReview = () => {
+        updateCurrentSection(section => ({ ...section, marked: section.marked.map((m, i) => i === currentQuestionIndex ? !m : m) }));
+    };
+
+    const submitSection = () => {
+        setShowConfirmSubmitModal(false);
+        const updatedSections = sections.map((section, i) => i === currentSectionIndex
+            ? { ...section, timeSpentSeconds: sectionTimeLimit - timeLeft }
+            : section);
+        setSections(updatedSections);
+
+        const nextSectionIndex = currentSectionIndex + 1;
+        if (nextSectionIndex < updatedSections.length) {
+            setCurrentSectionIndex(nextSectionIndex);
+            setCurrentQuestionIndex(0);
+            setTimeLeft(sectionTimeLimit);
+        } else {
+            finishExam(updatedSections);
+        }
+    };
+
+    const finishExam = async (finalSections: ExamSection[]) => {
+        setPhase('completed');
+
+        const results: SectionResult[] = finalSections.map(section => {
+            const summary = scoreTest(section.questions, section.answers, scoringScheme);
+            return {
+                topic: section.topic,
+                score: summary.score,
+                maxScore: summary.maxScore,
+                correct: summary.correct,
+                totalQuestions: section.questions.length,
+                attempted: summary.correct + summary.incorrect,
+                timeSpentSeconds: section.timeSpentSeconds,
+            };
+        });
+        setSectionResults(results);
+        setPointsEarned(null);
+
+        if (!user) return;
+
+        try {
+            if (!attempt) {
+                throw new Error(attemptError ?? "This exam was not registered for grading when it started.");
+            }
+            const { resultId, pointsEarned } = await submitTestAttempt(attempt, {
+                answers: finalSections.flatMap(section => section.answers),
+                sectionTimes: Object.fromEntries(finalSections.map(section => [section.topic, section.timeSpentSeconds])),
+            });
+            setSavedResultId(resultId);
+            setPointsEarned(pointsEarned);
+
+            // Update profile context locally for immediate UI update
+            if (pointsEarned > 0) {
+                setProfile(prev => prev ? {...prev, score: prev.score + pointsEarned} : null);
+            }
+        } catch (e: any) {
+            console.error("Failed to save mock exam", e);
+            setSaveError(e.message);
+        }
+    };
+
+    const resetToSetup = () => {
+        setPhase('setup');
+        setSections([]);
+        setSectionResults([]);
+        setShowConfirmEndModal(false);
+        setShowConfirmSubmitModal(false);
+    };
+
+    if (phase === 'setup') {
+        return (
+            <div className="max-w-2xl mx-auto p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in">
+                <button onClick={() => navigate('/practice')} className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white mb-4">
+                    <ArrowLeftIcon />
+                    <span className="ml-2">Back to Topics</span>
+                </button>
+                <h1 className="text-3xl font-bold text-center mb-1">Full-Length Mock Exam</h1>
+                <p className="text-center text-gray-500 dark:text-gray-400 mb-6">Timed sections, no explanations until you submit.</p>
+                {/* Sections */}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Sections</label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {topics.map(t => (
+                            <label key={t.key} className={`flex items-center p-3 rounded-lg border-2 cursor-pointer transition ${selectedTopics.includes(t.name) ? 'border-fire-orange-start bg-orange-50 dark:bg-gray-700' : 'border-gray-200 dark:border-gray-600'}`}>
+                                <input type="checkbox" checked={selectedTopics.includes(t.name)} onChange={() => toggleTopic(t.name)} className="mr-3 accent-fire-orange-start" />
+                                <span className="text-sm font-medium">{t.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                {/* Difficulty */}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Difficulty</label>
+                    <div className="grid grid-cols-3 gap-2 rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                        {difficulties.map(d => (
+                            <button key={d} onClick={() => setDifficulty(d)} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${difficulty === d ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>{d}</button>
+                        ))}
+                    </div>
+                </div>
+                {/* Question Source */}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Questions</label>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                        {questionSources.map(({ value, label }) => (
+                            <button key={value} onClick={() => setQuestionSource(value)} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${questionSource === value ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>{label}</button>
+                        ))}
+                    </div>
+                </div>
+                {/* Questions per Section */}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Questions per Section: {questionsPerSection}</label>
+                    <input type="range" min="3" max="20" value={questionsPerSection} onChange={e => setQuestionsPerSection(Number(e.target.value))} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 accent-fire-orange-start"/>
+                </div>
+                {/* Time per Section */}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Time per Section: {minutesPerSection} min</label>
+                    <input type="range" min="2" max="60" value={minutesPerSection} onChange={e => setMinutesPerSection(Number(e.target.value))} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 accent-fire-orange-start"/>
+                </div>
+                {/* Scoring */}
+                <div className="mb-6">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Scoring</label>
+                    <select value={scoringScheme} onChange={e => setScoringScheme(e.target.value as ScoringSchemeId)} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                        {Object.values(scoringSchemes).map(scheme => <option key={scheme.id} value={scheme.id}>{scheme.name}</option>)}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{scoringSchemes[scoringScheme].description}</p>
+                </div>
+                <button onClick={startExam} disabled={selectedTopics.length === 0} className="w-full px-6 py-3 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50">
+                    Start Exam
+                </button>
+            </div>
+        );
+    }
+
+    if (phase === 'loading') {
+        return (
+            <div className="flex flex-col items-center justify-center h-full">
+                <div className="w-16 h-16 border-4 border-t-transparent border-fire-orange-start rounded-full animate-spin"></div>
+                <p className="mt-4 text-lg">Generating your mock exam...</p>
+            </div>
+        );
+    }
+
+    if (phase === 'completed') {
+        const totalScore = sectionResults.reduce((acc, r) => acc + r.score, 0);
+        const maxScore = sectionResults.reduce((acc, r) => acc + r.maxScore, 0);
+        return (
+            <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+                <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg text-center">
+                    <h2 className="text-3xl font-bold text-fire-orange-start mb-4">Exam Submitted!</h2>
+                    <p className="text-xl mb-2">You scored:</p>
+                    <p className="text-5xl font-bold mb-2">{formatScore(totalScore)} / {maxScore}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">{scoringSchemes[scoringScheme].name}</p>
+                    {saveError ? (
+                        <div className="my-6">
+                           <DatabaseSetupInstructions feature="weekly_progress" error={saveError} />
+                        </div>
+                    ) : pointsEarned === null ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">Saving your result...</p>
+                    ) : (
+                        <p className="text-lg font-semibold text-green-500 mb-6">
+                            +{pointsEarned} XP Earned
+                            {pointsEarned < xpForScore(totalScore, scoringScheme) && (
+                                <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">Only question bank questions earn XP, at most {MAX_XP_PER_TEST.toLocaleString()} per test and {MAX_XP_PER_DAY.toLocaleString()} a day.</span>
+                            )}
+                        </p>
+                    )}
+                    <div className="flex justify-center gap-4">
+                        {savedResultId && (
+                            <Link to={`/history/${savedResultId}`} className="px-6 py-2 font-semibold rounded-lg bg-gray-200 dark:bg-gray-600 hover:opacity-90 transition-opacity">
+                                Review Answers
+                            </Link>
+                        )}
+                        <button onClick={resetToSetup} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                            Take Another Exam
+                        </button>
+                    </div>
+                </div>
+
+                <SectionBreakdown results={sectionResults} />
+
+                {sections.map(section => (
+                    <details key={section.topic} className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
+                        <summary className="cursor-pointer font-bold">{section.topic}: Review Questions</summary>
+                        <div className="mt-4 space-y-8">
+                            {section.questions.map((question, i) => (
+                                <QuestionCard key={i} question={question} index={i} total={section.questions.length} selectedAnswer={section.answers[i]} revealed />
+                            ))}
+                        </div>
+                    </details>
+                ))}
+            </div>
+        );
+    }
+
+    const currentSection = sections[currentSectionIndex];
+    if (!currentSection) return null;
+    const isLastSection = currentSectionIndex === sections.length - 1;
+
+    return (
+        <div className="relative animate-fade-in">
+            {showConfirmEndModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40">
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl text-center w-11/12 max-w-sm">
+                        <h3 className="text-lg font-bold mb-2">Quit Exam?</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">Are you sure? Your answers will not be saved.</p>
+                        <div className="flex justify-center gap-4">
+                            <button onClick={() => setShowConfirmEndModal(false)} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold">Continue Exam</button>
+                            <button onClick={resetToSetup} className="px-4 py-2 rounded-lg bg-red-500 text-white text-sm font-semibold">Quit Exam</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showConfirmSubmitModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40">
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl text-center w-11/12 max-w-sm">
+                        <h3 className="text-lg font-bold mb-2">{isLastSection ? 'Submit Exam?' : 'Submit Section?'}</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                            You have answered {currentSection.answers.filter(a => a !== null).length} of {currentSection.questions.length} questions
+                            {currentSection.marked.some(m => m) && `, with ${currentSection.marked.filter(m => m).length} marked for review`}.
+                            You cannot return to this section after submitting.
+                        </p>
+                        <div className="flex justify-center gap-4">
+                            <button onClick={() => setShowConfirmSubmitModal(false)} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold">Keep Working</button>
+                            <button onClick={submitSection} className="px-4 py-2 rounded-lg bg-fire-orange-start text-white text-sm font-semibold">Submit</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Section tabs */}
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex flex-wrap gap-2">
+                    {sections.map((section, i) => (
+                        <span key={section.topic} className={`px-3 py-1 rounded-full text-sm font-semibold ${i === currentSectionIndex ? 'bg-gradient-to-r from-fire-orange-start to-fire-red-end text-white' : i < currentSectionIndex ? 'bg-gray-200 dark:bg-gray-700 text-gray-400 line-through' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}>
+                            {section.topic}
+                        </span>
+                    ))}
+                </div>
+                <div className="flex items-center gap-4">
+                    <KeyboardShortcuts
+                        active={!showConfirmEndModal && !showConfirmSubmitModal}
+                        shortcuts={[
+                            optionShortcut,
+                            { keys: ['Enter', 'n'], display: 'Enter or N', label: 'Next question', action: currentQuestionIndex < currentSection.questions.length - 1 ? () => goToQuestion(currentQuestionIndex + 1) : undefined },
+                            { keys: ['p'], label: 'Previous question', action: currentQuestionIndex > 0 ? () => goToQuestion(currentQuestionIndex - 1) : undefined },
+                            { keys: ['m'], label: 'Mark or unmark for review', action: toggleMarkForReview },
+                        ]}
+                    />
+                    <button onClick={() => setShowConfirmEndModal(true)} aria-label="End exam" className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+                        <XIcon />
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Question */}
+                <div className="lg:col-span-2 p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
+                    <QuestionCard
+                        question={currentSection.questions[currentQuestionIndex]}
+                        index={currentQuestionIndex}
+                        total={currentSection.questions.length}
+                        selectedAnswer={currentSection.answers[currentQuestionIndex]}
+                        revealed={false}
+                        onSelect={selectAnswer}
+                        submitLabel="Save Answer"
+                        keyboard
+                    />
+                    <div className="flex flex-wrap justify-between gap-2 mt-6">
+                        <div className="flex gap-2">
+                            <button onClick={toggleMarkForReview} className={`flex items-center px-4 py-2 rounded-lg text-sm font-semibold ${currentSection.marked[currentQuestionIndex] ? 'bg-purple-500 text-white' : 'bg-gray-200 dark:bg-gray-600'}`}>
+                                <FlagIcon size={16} />
+                                <span className="ml-2">{currentSection.marked[currentQuestionIndex] ? 'Unmark' : 'Mark for Review'}</span>
+                            </button>
+                            <button onClick={clearResponse} disabled={currentSection.answers[currentQuestionIndex] === null} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold disabled:opacity-50">Clear Response</button>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => goToQuestion(currentQuestionIndex - 1)} disabled={currentQuestionIndex === 0} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold disabled:opacity-50">Previous</button>
+                            <button onClick={() => goToQuestion(currentQuestionIndex + 1)} disabled={currentQuestionIndex === currentSection.questions.length - 1} className="px-4 py-2 rounded-lg bg-fire-orange-start text-white text-sm font-semibold disabled:opacity-50">Next</button>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Timer and palette */}
+                <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-bold">{currentSection.topic}</h3>
+                        <div className="flex items-center text-lg font-semibold text-fire-red-end">
+                            <ClockIcon />
+                            <span className="ml-2">{formatTime(timeLeft)}</span>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-5 gap-2 mb-4">
+                        {currentSection.questions.map((_, i) => (
+                            <button
+                                key={i}
+                                onClick={() => goToQuestion(i)}
+                                className={`h-10 rounded-lg text-sm font-semibold transition ${paletteClasses[getPaletteStatus(currentSection, i)]} ${i === currentQuestionIndex ? 'outline outline-2 outline-offset-2 outline-fire-orange-start' : ''}`}
+                            >
+                                {i + 1}
+                            </button>
+                        ))}
+                    </div>
+                    <ul className="space-y-1 mb-6 text-xs text-gray-600 dark:text-gray-400">
+                        {(Object.keys(paletteLabels) as PaletteStatus[]).map(status => (
+                            <li key={status} className="flex items-center">
+                                <span className={`inline-block w-4 h-4 rounded mr-2 ${paletteClasses[status]}`}></span>
+                                {paletteLabels[status]}
+                            </li>
+                        ))}
+                    </ul>
+                    {questionNotice && <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">{questionNotice}</p>}
+                    <button onClick={() => setShowConfirmSubmitModal(true)} className="w-full px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                        {isLastSection ? 'Submit Exam' : 'Submit Section'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const SectionBreakdown: React.FC<{ results: SectionResult[] }> = ({ results }) => (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-x-auto">
+        <h3 className="text-xl font-bold mb-4">Section Breakdown</h3>
+        <table className="w-full text-sm text-left">
+            <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                    <th className="py-2">Section</th>
+                    <th className="py-2 text-right">Score</th>
+                    <th className="py-2 text-right">Attempted</th>
+                    <th className="py-2 text-right">Accuracy</th>
+                    <th className="py-2 text-right">Time Used</th>
+                </tr>
+            </thead>
+            <tbody>
+                {results.map(r => (
+                    <tr key={r.topic} className="border-b border-gray-200 dark:border-gray-700 last:border-0">
+                        <td className="py-2 font-medium">{r.topic}</td>
+                        <td className="py-2 text-right">{formatScore(r.score)} / {r.maxScore}</td>
+                        <td className="py-2 text-right">{r.attempted} / {r.totalQuestions}</td>
+                        <td className="py-2 text-right">{r.attempted > 0 ? Math.round((r.correct / r.attempted) * 100) : 0}%</td>
+                        <td className="py-2 text-right">{formatTime(r.timeSpentSeconds)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+export default MockExam;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { TimedAnswer, PaceFlag, paceByTopic, paceFlag, formatSeconds } from '../services/timing';
+import RichText from './RichText';
+
+// Questions listed under each flag
+const FLAGGED_LIST_SIZE = 5;
+
+const flagTitles: Record<PaceFlag, { title: string; hint: string }> = {
+    'slow-correct': { title: 'Slow but Correct', hint: 'You know these; practise getting there faster.' },
+    'fast-wrong': { title: 'Fast but Wrong', hint: 'Answered in under half the target time. Slow down and read carefully.' },
+};
+
+const FlaggedList: React.FC<{ flag: PaceFlag; answers: TimedAnswer[] }> = ({ flag, answers }) => (
+    <div>
+        <h4 className="font-semibold">{flagTitles[flag].title} ({answers.length})</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{flagTitles[flag].hint}</p>
+        {answers.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">None</p>
+        ) : (
+            <ul className="space-y-1 text-sm">
+                {answers.slice(0, FLAGGED_LIST_SIZE).map((answer, i) => (
+                    <li key={i} className="flex justify-between gap-4">
+                        <RichText text={answer.question} inline literalAsterisks className="truncate" />
+                        <span className="flex-shrink-0 font-semibold">{formatSeconds(answer.timeSpentSeconds)}</span>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+
+/** Average time per question by topic against the exam's target pace, with the questions worth a second look. */
+export const PaceBreakdown: React.FC<{ answers: TimedAnswer[]; title?: string }> = ({ answers, title = 'Pace' }) => {
+    const flagged = (flag: PaceFlag) => answers.filter(answer => paceFlag(answer) === flag);
+    return (
+        <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-x-auto text-left">
+            <h3 className="text-xl font-bold mb-4">{title}</h3>
+            <table className="w-full text-sm text-left mb-6">
+                <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                        <th className="py-2">Topic</th>
+                        <th className="py-2 text-right">Questions</th>
+                        <th className="py-2 text-right">Average</th>
+                        <th className="py-2 text-right">Target</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {paceByTopic(answers).map(pace => (
+                        <tr key={pace.topic} className="border-b border-gray-200 dark:border-gray-700 last:border-0">
+                            <td className="py-2 font-medium">{pace.topic}</td>
+                            <td className="py-2 text-right">{pace.questions}</td>
+                            <td className={`py-2 text-right font-semibold ${pace.averageSeconds > pace.targetSeconds ? 'text-red-500' : 'text-green-500'}`}>
+                                {formatSeconds(pace.averageSeconds)}
+                            </td>
+                            <td className="py-2 text-right">{formatSeconds(pace.targetSeconds)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="grid gap-6 sm:grid-cols-2">
+                <FlaggedList flag="slow-correct" answers={flagged('slow-correct').sort((a, b) => b.timeSpentSeconds - a.timeSpentSeconds)} />
+                <FlaggedList flag="fast-wrong" answers={flagged('fast-wrong').sort((a, b) => a.timeSpentSeconds - b.timeSpentSeconds)} />
+            </div>
+        </div>
+    );
+};
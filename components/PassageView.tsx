@@ -0,0 +1,59 @@
+import React from 'react';
+import { Passage, Question } from '../types';
+import { PassageResult } from '../services/scoring';
+import { FileTextIcon } from './Icons';
+
+/** First and last index of the run of questions sharing the passage at `index`. */
+export const passageGroupRange = (questions: Question[], index: number): [number, number] => {
+    const id = questions[index]?.passage?.id;
+    let first = index;
+    let last = index;
+    while (first > 0 && questions[first - 1].passage?.id === id) first--;
+    while (last < questions.length - 1 && questions[last + 1].passage?.id === id) last++;
+    return [first, last];
+};
+
+interface PassagePanelProps {
+    passage: Passage;
+    // Zero-based positions of the first and last question about this passage
+    range: [number, number];
+}
+
+export const PassagePanel: React.FC<PassagePanelProps> = ({ passage, range: [first, last] }) => (
+    <article className="p-4 bg-gray-50 dark:bg-gray-900/40 border border-gray-200 dark:border-gray-700 rounded-lg lg:max-h-[70vh] lg:overflow-y-auto">
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mb-2">
+            <FileTextIcon size={16} />
+            <span>{first === last ? `Question ${first + 1}` : `Questions ${first + 1}–${last + 1}`} refer to this passage</span>
+        </div>
+        {passage.title && <h3 className="text-lg font-bold mb-2">{passage.title}</h3>}
+        <div className="space-y-3 leading-relaxed">
+            {passage.text.split(/\n\s*\n/).map((paragraph, i) => <p key={i}>{paragraph}</p>)}
+        </div>
+    </article>
+);
+
+export const PassageBreakdown: React.FC<{ results: PassageResult[] }> = ({ results }) => (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-x-auto text-left">
+        <h3 className="text-xl font-bold mb-4">Reading Comprehension</h3>
+        <table className="w-full text-sm text-left">
+            <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                    <th className="py-2">Passage</th>
+                    <th className="py-2 text-right">Correct</th>
+                    <th className="py-2 text-right">Attempted</th>
+                    <th className="py-2 text-right">Accuracy</th>
+                </tr>
+            </thead>
+            <tbody>
+                {results.map((r, i) => (
+                    <tr key={r.passageId} className="border-b border-gray-200 dark:border-gray-700 last:border-0">
+                        <td className="py-2 font-medium">{r.title || `Passage ${i + 1}`}</td>
+                        <td className="py-2 text-right">{r.correct} / {r.totalQuestions}</td>
+                        <td className="py-2 text-right">{r.attempted} / {r.totalQuestions}</td>
+                        <td className="py-2 text-right">{r.attempted > 0 ? Math.round((r.correct / r.attempted) * 100) : 0}%</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
@@ -1,14 +1,32 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { generateAptitudeQuestions } from '../services/geminiService';
-import { supabase } from '../services/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { loadTestQuestions, supportsPassages } from '../services/questionProvider';
+import { validationNotice } from '../services/questionValidation';
+import { hasGenerators } from '../services/generators';
+import { topics, getTopicByKey } from '../services/topics';
+import { loadSkillRatings, recommendDifficulty, skillLevel, INITIAL_RATING, TARGET_SUCCESS_RATE } from '../services/skill';
+import { startTestAttempt, submitTestAttempt } from '../services/testResults';
+import { addMistakes, collectMistakes, countDueReviews, questionKey } from '../services/reviewQueue';
+import { loadSavedQuestionsFor, updateSavedQuestions } from '../services/savedQuestions';
+import { watchForViolations, enterFullscreen, exitFullscreen, isFullscreen, maxViolationOptions, DEFAULT_MAX_VIOLATIONS } from '../services/proctoring';
+import { PracticeSession, loadSession, saveSessionLocally, saveSessionRemotely, clearSession, isSessionAbandoned, DEFAULT_ABANDON_AFTER_MINUTES } from '../services/testSessions';
+import { scoreTest, scorePassages, scoreSubtopics, scoringSchemes, xpForScore, formatScore, MAX_XP_PER_TEST, MAX_XP_PER_DAY, isCorrectAnswer, DEFAULT_SCORING_SCHEME } from '../services/scoring';
+import { formatAnswer } from '../services/answers';
+import { timedTestAnswers } from '../services/timing';
 import { useAuth } from '../contexts/AppContexts';
-import { Question } from '../types';
-import { ArrowLeftIcon, ClockIcon, LightbulbIcon, XIcon } from './Icons';
+import { Question, Difficulty, TestSettings, TimeLimitMode, ScoringSchemeId, QuestionSource, QuestionFormat, Topic, SavedQuestion, ProctoringEvent } from '../types';
+import { ArrowLeftIcon, ClockIcon, XIcon } from './Icons';
 import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import QuestionCard from './QuestionCard';
+import SavedQuestionControls from './SavedQuestionControls';
+import ReportQuestionButton from './ReportQuestionButton';
+import { PassagePanel, PassageBreakdown, passageGroupRange } from './PassageView';
+import { SubtopicBreakdown } from './SubtopicBreakdown';
+import { PaceBreakdown } from './PaceBreakdown';
+import { ProctoringLog } from './ProctoringLog';
+import KeyboardShortcuts, { optionShortcut } from './KeyboardShortcuts';
 
-type TestState = 'not-started' | 'loading' | 'in-progress' | 'completed';
-type Topic = { name: string; description: string; key: string };
+type TestState = 'checking-session' | 'resume-prompt' | 'not-started' | 'loading' | 'in-progress' | 'completed';
 
 /*
 NOTE FOR SUPABASE SETUP:
@@ -18,52 +36,196 @@ or loading data on the dashboard, the app will display the necessary SQL
 commands to fix the issue.
 */
 
-const topics: Topic[] = [
-    { name: 'Quantitative Aptitude', description: 'Test your numerical and mathematical skills.', key: 'quantitative-aptitude' },
-    { name: 'Logical Reasoning', description: 'Assess your problem-solving abilities.', key: 'logical-reasoning' },
-    { name: 'Verbal Ability', description: 'Check your command over the English language.', key: 'verbal-ability' },
-    { name: 'General Knowledge', description: 'Evaluate your awareness of current affairs.', key: 'general-knowledge' },
-    { name: 'Data Interpretation', description: 'Analyze data from charts and graphs.', key: 'data-interpretation' },
+const difficulties: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export const questionSources: { value: QuestionSource; label: string }[] = [
+    { value: 'ai', label: 'AI Generated' },
+    { value: 'bank', label: 'Question Bank' },
+    { value: 'mixed', label: 'Mixed' },
+    { value: 'generated', label: 'Procedural' },
+];
+
+const questionFormats: { value: QuestionFormat; label: string }[] = [
+    { value: 'standalone', label: 'Standalone' },
+    { value: 'passages', label: 'Reading Comprehension' },
 ];
 
+// Sections are only used by the mock exam
+type PracticeTimeLimitMode = Exclude<TimeLimitMode, 'per-section'>;
+
+// Default time limit (in seconds) offered when switching between timer modes
+const defaultTimeLimits: Record<PracticeTimeLimitMode, number> = {
+    'per-test': 300,
+    'per-question': 60,
+};
+
+// How long an unfinished test can be left before it is auto-submitted
+const abandonWindows = [
+    { label: '15 minutes', minutes: 15 },
+    { label: '1 hour', minutes: 60 },
+    { label: '1 day', minutes: 24 * 60 },
+];
+
+const defaultSettings: TestSettings = {
+    questionCount: 5,
+    difficulty: 'Medium',
+    timeLimitMode: 'per-test',
+    timeLimitSeconds: defaultTimeLimits['per-test'],
+    scoringScheme: DEFAULT_SCORING_SCHEME,
+    questionSource: 'ai',
+    adaptive: true,
+    abandonAfterMinutes: DEFAULT_ABANDON_AFTER_MINUTES,
+};
+
+// Adds seconds to the time spent on a question
+const addQuestionTime = (times: (number | null)[], index: number, seconds: number) => {
+    const next = [...times];
+    next[index] = (next[index] ?? 0) + seconds;
+    return next;
+};
+
 const Practice: React.FC = () => {
-    const { topic: topicKey } = useParams<{ topic: string }>();
+    const { topic: topicKey, subtopic: subtopicKey } = useParams<{ topic: string; subtopic?: string }>();
     const navigate = useNavigate();
     const { user, setProfile } = useAuth();
     
-    const [testState, setTestState] = useState<TestState>('not-started');
+    const [testState, setTestState] = useState<TestState>('checking-session');
+    const [settings, setSettings] = useState<TestSettings>(defaultSettings);
     const [questions, setQuestions] = useState<Question[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-    const [answers, setAnswers] = useState<string[]>([]);
+    const [answers, setAnswers] = useState<(string | null)[]>([]);
+    // Seconds spent on each question before it was answered or ran out of time
+    const [questionTimes, setQuestionTimes] = useState<(number | null)[]>([]);
     const [showExplanation, setShowExplanation] = useState(false);
-    const [timeLeft, setTimeLeft] = useState(300); // 5 minutes
+    const [timeLeft, setTimeLeft] = useState(defaultSettings.timeLimitSeconds);
     const [saveError, setSaveError] = useState<string | null>(null);
+    const [savedResultId, setSavedResultId] = useState<string | null>(null);
+    // XP as awarded by the database, which caps it per test and per day
+    const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+    // The test as registered for grading, and why registering failed if it did
+    const [attemptId, setAttemptId] = useState<string | null>(null);
+    const [attemptError, setAttemptError] = useState<string | null>(null);
+    // How the AI questions of this test fared in validation
+    const [questionNotice, setQuestionNotice] = useState<string | null>(null);
     const [showConfirmEndModal, setShowConfirmEndModal] = useState(false);
+    const [pendingSession, setPendingSession] = useState<PracticeSession | null>(null);
+    const [wasAutoSubmitted, setWasAutoSubmitted] = useState(false);
+    // Violations recorded during a proctored test
+    const [proctoringLog, setProctoringLog] = useState<ProctoringEvent[]>([]);
+    const [wasProctorSubmitted, setWasProctorSubmitted] = useState(false);
+    const [isFullscreenActive, setIsFullscreenActive] = useState(false);
+    // The user's skill rating for this topic; null until one has been recorded
+    const [skillRating, setSkillRating] = useState<number | null>(null);
+    // Bookmarks and notes on this test's questions, keyed by question key
+    const [savedQuestions, setSavedQuestions] = useState<Record<string, SavedQuestion>>({});
+    const nextButtonRef = useRef<HTMLButtonElement>(null);
 
-    const selectedTopic = topics.find(t => t.key === topicKey);
+    const selectedTopic = getTopicByKey(topicKey);
+    // A subtopic in the route, e.g. from a Dashboard suggestion, preselects the focus
+    const routeSubtopic = selectedTopic?.subtopics.find(s => s.key === subtopicKey);
+    const isPerQuestionTimer = settings.timeLimitMode === 'per-question';
 
     useEffect(() => {
         if (topicKey && selectedTopic) {
-            startTest(selectedTopic.name);
+            setTestState('checking-session');
+            setQuestions([]);
+            setQuestionNotice(null);
+            checkForUnfinishedSession(topicKey);
         } else {
             resetTest();
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [topicKey]);
+    }, [topicKey, subtopicKey]);
+
+    useEffect(() => {
+        setSkillRating(null);
+        if (!user || !selectedTopic) return;
+        loadSkillRatings(user.id)
+            .then(ratings => {
+                const saved = ratings.find(r => r.topic === selectedTopic.name);
+                setSkillRating(saved ? Number(saved.rating) : null);
+            })
+            .catch(e => console.warn("Could not load skill ratings:", e.message));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [topicKey, user]);
+
+    useEffect(() => {
+        setSavedQuestions({});
+        if (!user || questions.length === 0) return;
+        loadSavedQuestionsFor(user.id, questions)
+            .then(setSavedQuestions)
+            .catch(e => console.warn("Could not load saved questions:", e.message));
+    }, [questions, user]);
+
+    // Keep a local copy of the running test so it survives a reload
+    useEffect(() => {
+        if (testState !== 'in-progress' || !selectedTopic || !user) return;
+        saveSessionLocally(user.id, buildSession());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [testState, questions, answers, currentQuestionIndex, showExplanation, timeLeft, user]);
+
+    // Sync to Supabase only when the answers, position or violations change, not on every timer tick
+    useEffect(() => {
+        if (testState !== 'in-progress' || !selectedTopic || !user) return;
+        saveSessionRemotely(user.id, buildSession());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [testState, questions, answers, currentQuestionIndex, proctoringLog, user]);
 
     useEffect(() => {
-        if (testState === 'in-progress' && timeLeft > 0) {
-            const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
+        if (testState !== 'in-progress') return;
+        // A per-question timer pauses while the explanation is on screen
+        if (isPerQuestionTimer && showExplanation) return;
+
+        if (timeLeft > 0) {
+            const timer = setTimeout(() => {
+                setTimeLeft(timeLeft - 1);
+                // Time spent reading the explanation doesn't count towards the question
+                if (!showExplanation) setQuestionTimes(prev => addQuestionTime(prev, currentQuestionIndex, 1));
+            }, 1000);
             return () => clearTimeout(timer);
         }
-        if (timeLeft === 0 && testState === 'in-progress') {
+        if (isPerQuestionTimer) {
+            // Out of time on this question: leave it unanswered and reveal the answer
+            setQuestionTimes(prev => addQuestionTime(prev, currentQuestionIndex, 0));
+            setShowExplanation(true);
+        } else {
             handleCompletion();
         }
-    }, [timeLeft, testState]);
+    }, [timeLeft, testState, showExplanation, isPerQuestionTimer]);
+
+    useEffect(() => {
+        if (testState !== 'in-progress' || !settings.proctoring) return;
+        setIsFullscreenActive(isFullscreen());
+        const handleFullscreenChange = () => setIsFullscreenActive(isFullscreen());
+        document.addEventListener('fullscreenchange', handleFullscreenChange);
+        const stopWatching = watchForViolations(kind => setProctoringLog(prev => [
+            ...prev, { kind, at: new Date().toISOString(), questionIndex: currentQuestionIndex },
+        ]));
+        return () => {
+            stopWatching();
+            document.removeEventListener('fullscreenchange', handleFullscreenChange);
+        };
+    }, [testState, settings.proctoring, currentQuestionIndex]);
+
+    // Too many violations end a proctored test
+    useEffect(() => {
+        if (testState !== 'in-progress' || !settings.proctoring) return;
+        if (proctoringLog.length >= settings.proctoring.maxViolations) {
+            setWasProctorSubmitted(true);
+            completeTest(questions, answers, settings, attemptId, questionTimes, proctoringLog);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [proctoringLog]);
+
+    // The answered option is disabled, so focus moves on to the Next button
+    useEffect(() => {
+        if (testState === 'in-progress' && showExplanation) nextButtonRef.current?.focus();
+    }, [testState, showExplanation]);
 
     useEffect(() => {
         const handleVisibilityChange = () => {
-            if (document.hidden && testState === 'in-progress' && !showConfirmEndModal) {
+            // Proctored tests log tab switches instead
+            if (document.hidden && testState === 'in-progress' && !showConfirmEndModal && !settings.proctoring) {
                  alert('Warning: Switching tabs during a test is not recommended. The timer is still running.');
             }
         };
@@ -75,57 +237,151 @@ const Practice: React.FC = () => {
         return () => {
             document.removeEventListener('visibilitychange', handleVisibilityChange);
         };
-    }, [testState, showConfirmEndModal]);
+    }, [testState, showConfirmEndModal, settings.proctoring]);
+
+    const buildSession = (): PracticeSession => ({
+        topicKey: topicKey!,
+        topic: selectedTopic!.name,
+        settings,
+        questions,
+        answers,
+        currentQuestionIndex,
+        revealed: showExplanation,
+        timeLeft,
+        questionTimes,
+        proctoringLog: settings.proctoring ? proctoringLog : undefined,
+        attemptId: attemptId ?? undefined,
+        updatedAt: new Date().toISOString(),
+    });
 
-    const handleCompletion = async () => {
+    const checkForUnfinishedSession = async (key: string) => {
+        const session = user ? await loadSession(user.id, key) : null;
+        if (!session || session.questions.length === 0) {
+            setSettings(prev => ({ ...prev, subtopic: routeSubtopic?.name }));
+            setTestState('not-started');
+            return;
+        }
+
+        setSettings(session.settings);
+        setQuestions(session.questions);
+        setAnswers(session.answers);
+        setCurrentQuestionIndex(session.currentQuestionIndex);
+        setShowExplanation(session.revealed);
+        setTimeLeft(session.timeLeft);
+        const times = session.questionTimes ?? new Array(session.questions.length).fill(null);
+        setQuestionTimes(times);
+        setProctoringLog(session.proctoringLog ?? []);
+        setAttemptId(session.attemptId ?? null);
+        setAttemptError(null);
+
+        if (isSessionAbandoned(session)) {
+            setWasAutoSubmitted(true);
+            completeTest(session.questions, session.answers, session.settings, session.attemptId ?? null, times, session.proctoringLog ?? []);
+        } else {
+            setPendingSession(session);
+            setTestState('resume-prompt');
+        }
+    };
+
+    const resumeSession = () => {
+        if (settings.proctoring) enterFullscreen();
+        setPendingSession(null);
+        setTestState('in-progress');
+    };
+
+    const discardSession = () => {
+        setPendingSession(null);
+        setQuestions([]);
+        setSettings({ ...defaultSettings, subtopic: routeSubtopic?.name });
+        if (topicKey && user) clearSession(user.id, topicKey);
+        setTestState('not-started');
+    };
+
+    const handleCompletion = () => {
          if (testState === 'completed') return;
+         completeTest(questions, answers, settings, attemptId, questionTimes, proctoringLog);
+    };
+
+    const completeTest = async (finalQuestions: Question[], finalAnswers: (string | null)[], finalSettings: TestSettings, finalAttemptId: string | null, finalTimes: (number | null)[], finalLog: ProctoringEvent[] = []) => {
          setTestState('completed');
+         if (topicKey && user) clearSession(user.id, topicKey);
+         if (finalSettings.proctoring) exitFullscreen();
 
-         const score = answers.filter((ans, i) => questions[i] && ans === questions[i].correctAnswer).length;
          setSaveError(null);
+         setPointsEarned(null);
 
         if (selectedTopic && user) {
             try {
-                 // 1. Save the raw test result
-                const { error: insertError } = await supabase
-                    .from('test_results')
-                    .insert({
-                        user_id: user.id,
-                        topic: selectedTopic.name,
-                        score: score,
-                        total_questions: questions.length
-                    });
-                if (insertError) throw insertError;
-                
-                // 2. Increment user's total score
-                const pointsEarned = score * 100; // 100 XP per correct answer
-                if (pointsEarned > 0) {
-                    const { error: rpcError } = await supabase.rpc('increment_user_score', {
-                        increment_value: pointsEarned
-                    });
-                    if (rpcError) throw rpcError;
+                if (!finalAttemptId) {
+                    throw new Error(attemptError ?? "This test was not registered for grading when it started.");
+                }
+                const { resultId, pointsEarned } = await submitTestAttempt({
+                    id: finalAttemptId,
+                    userId: user.id,
+                    topic: selectedTopic.name,
+                    mode: 'practice',
+                    settings: finalSettings,
+                    questions: finalQuestions
+                }, {
+                    answers: finalAnswers,
+                    questionTimes: finalTimes,
+                    proctoringLog: finalSettings.proctoring ? finalLog : undefined
+                });
+                setSavedResultId(resultId);
+                setPointsEarned(pointsEarned);
 
-                    // 3. Update profile context locally for immediate UI update
+                // Update profile context locally for immediate UI update
+                if (pointsEarned > 0) {
                     setProfile(prev => prev ? {...prev, score: prev.score + pointsEarned} : null);
                 }
-
             } catch (e: any) {
                 console.error("Failed to save performance data", e);
                 setSaveError(e.message);
             }
+            // Missed questions go to the Mistake Notebook even if the result could not be saved
+            await addMistakes(user.id, collectMistakes(finalQuestions, finalAnswers, () => selectedTopic.name));
         }
     }
     
     const startTest = async (topicName: string) => {
+        // Fullscreen has to be requested before anything is awaited, while the click still counts
+        if (settings.proctoring && !(await enterFullscreen())) {
+            alert("Proctored mode needs fullscreen, which your browser did not allow. Turn proctoring off or allow fullscreen and try again.");
+            return;
+        }
         setTestState('loading');
         setSaveError(null);
-        const fetchedQuestions = await generateAptitudeQuestions(topicName, 5);
+        setSavedResultId(null);
+        setWasAutoSubmitted(false);
+        setWasProctorSubmitted(false);
+        setProctoringLog([]);
+        setAttemptId(null);
+        setAttemptError(null);
+        // Adaptive tests are pitched at the level where the user should hit the target success rate
+        const difficulty = settings.adaptive ? recommendDifficulty(skillRating ?? INITIAL_RATING) : settings.difficulty;
+        setSettings(prev => ({ ...prev, difficulty }));
+        const loaded = await loadTestQuestions(topicName, settings.questionCount, difficulty, settings.questionSource, supportsPassages(topicName) ? settings.questionFormat : 'standalone', settings.subtopic);
+        const fetchedQuestions = loaded.questions;
+        setQuestionNotice(validationNotice(loaded));
         if (fetchedQuestions.length > 0) {
+            // The test can still be taken if registering fails; the error is shown with the results
+            if (user) {
+                try {
+                    // Fewer questions than asked for come back when a source runs short
+                    const registeredSettings = { ...settings, difficulty, questionCount: fetchedQuestions.length };
+                    const attempt = await startTestAttempt({ userId: user.id, topic: topicName, mode: 'practice', settings: registeredSettings, questions: fetchedQuestions });
+                    setAttemptId(attempt.id);
+                } catch (e: any) {
+                    console.error("Failed to register the test for grading", e);
+                    setAttemptError(e.message);
+                }
+            }
             setQuestions(fetchedQuestions);
             setAnswers(new Array(fetchedQuestions.length).fill(null));
+            setQuestionTimes(new Array(fetchedQuestions.length).fill(null));
             setCurrentQuestionIndex(0);
             setShowExplanation(false);
-            setTimeLeft(300);
+            setTimeLeft(settings.timeLimitSeconds);
             setTestState('in-progress');
         } else {
             // Handle error case
@@ -139,6 +395,7 @@ const Practice: React.FC = () => {
         const newAnswers = [...answers];
         newAnswers[currentQuestionIndex] = option;
         setAnswers(newAnswers);
+        setQuestionTimes(prev => addQuestionTime(prev, currentQuestionIndex, 0));
         setShowExplanation(true);
     };
 
@@ -146,22 +403,73 @@ const Practice: React.FC = () => {
         setShowExplanation(false);
         if (currentQuestionIndex < questions.length - 1) {
             setCurrentQuestionIndex(currentQuestionIndex + 1);
+            if (isPerQuestionTimer) {
+                setTimeLeft(settings.timeLimitSeconds);
+            }
         } else {
             handleCompletion();
         }
     };
     
     const resetTest = () => {
+        exitFullscreen();
         setTestState('not-started');
         setQuestions([]);
         setShowConfirmEndModal(false);
         navigate('/practice');
     }
 
+    // Ending a test on purpose discards it, unlike navigating away
+    const endTest = () => {
+        if (topicKey && user) clearSession(user.id, topicKey);
+        resetTest();
+    }
+
     if (!topicKey || !selectedTopic) {
         return <TopicSelection />;
     }
 
+    if (testState === 'checking-session') {
+        return (
+            <div className="flex flex-col items-center justify-center h-full">
+                <div className="w-16 h-16 border-4 border-t-transparent border-fire-orange-start rounded-full animate-spin"></div>
+                <p className="mt-4 text-lg">Checking for unfinished tests...</p>
+            </div>
+        );
+    }
+
+    if (testState === 'resume-prompt' && pendingSession) {
+        const answeredCount = pendingSession.answers.filter(a => a !== null).length;
+        return (
+            <div className="max-w-md mx-auto p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in text-center">
+                <h2 className="text-2xl font-bold mb-2">Resume your test?</h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-1">
+                    You have an unfinished {selectedTopic.name} test from {new Date(pendingSession.updatedAt).toLocaleString()}.
+                </p>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                    {answeredCount} of {pendingSession.questions.length} answered · {Math.floor(pendingSession.timeLeft / 60)}:{('0' + pendingSession.timeLeft % 60).slice(-2)} left
+                </p>
+                <div className="flex justify-center gap-4">
+                    <button onClick={discardSession} className="px-6 py-2 font-semibold rounded-lg bg-gray-200 dark:bg-gray-600">Start Over</button>
+                    <button onClick={resumeSession} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">Resume</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (testState === 'not-started') {
+        return (
+            <TestSetup
+                topic={selectedTopic}
+                skillRating={skillRating}
+                settings={settings}
+                onChange={setSettings}
+                onStart={() => startTest(selectedTopic.name)}
+                onBack={() => navigate('/practice')}
+            />
+        );
+    }
+
     if (testState === 'loading') {
         return (
             <div className="flex flex-col items-center justify-center h-full">
@@ -172,34 +480,91 @@ const Practice: React.FC = () => {
     }
 
     if (testState === 'completed') {
-        const score = answers.filter((ans, i) => ans === questions[i].correctAnswer).length;
+        const summary = scoreTest(questions, answers, settings.scoringScheme);
+        const passageResults = scorePassages(questions, answers);
+        const subtopicResults = scoreSubtopics(questions, answers);
+        const timedAnswers = timedTestAnswers(selectedTopic.name, questions, answers, questionTimes);
         return (
             <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in text-center">
                 <h2 className="text-3xl font-bold text-fire-orange-start mb-4">Test Completed!</h2>
+                {wasAutoSubmitted && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Your unfinished test was left for too long and has been submitted automatically.</p>
+                )}
+                {wasProctorSubmitted && (
+                    <p className="text-sm text-red-500 mb-4">Your test was submitted automatically after {proctoringLog.length} proctoring violations.</p>
+                )}
                 <p className="text-xl mb-2">You scored:</p>
-                <p className="text-5xl font-bold mb-2">{score} / {questions.length}</p>
+                <p className="text-5xl font-bold mb-2">{formatScore(summary.score)} / {summary.maxScore}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                    {summary.correct} correct · {summary.incorrect} wrong · {summary.unattempted} skipped ({scoringSchemes[settings.scoringScheme].name})
+                </p>
                 {saveError ? (
                     <div className="my-6">
                        <DatabaseSetupInstructions feature="weekly_progress" error={saveError} />
                     </div>
-                ) : (
-                    <p className="text-lg font-semibold text-green-500 mb-6">+{score * 100} XP Earned</p>
+                ) : pointsEarned !== null && (
+                    <p className="text-lg font-semibold text-green-500 mb-6">
+                        +{pointsEarned} XP Earned
+                        {pointsEarned < xpForScore(summary.score, settings.scoringScheme) && (
+                            <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">Only question bank questions earn XP, at most {MAX_XP_PER_TEST.toLocaleString()} per test and {MAX_XP_PER_DAY.toLocaleString()} a day.</span>
+                        )}
+                    </p>
                 )}
-                <button onClick={resetTest} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
-                    Take Another Test
-                </button>
+                {passageResults.length > 0 && (
+                    <div className="mb-6">
+                        <PassageBreakdown results={passageResults} />
+                    </div>
+                )}
+                {subtopicResults.length > 1 && (
+                    <div className="mb-6">
+                        <SubtopicBreakdown results={subtopicResults} />
+                    </div>
+                )}
+                {timedAnswers.length > 0 && (
+                    <div className="mb-6">
+                        <PaceBreakdown answers={timedAnswers} title="Your Pace" />
+                    </div>
+                )}
+                {settings.proctoring && (
+                    <div className="mb-6">
+                        <ProctoringLog events={proctoringLog} maxViolations={settings.proctoring.maxViolations} />
+                    </div>
+                )}
+                <div className="flex justify-center gap-4">
+                    {savedResultId && (
+                        <Link to={`/history/${savedResultId}`} className="px-6 py-2 font-semibold rounded-lg bg-gray-200 dark:bg-gray-600 hover:opacity-90 transition-opacity">
+                            Review Answers
+                        </Link>
+                    )}
+                    <button onClick={resetTest} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                        Take Another Test
+                    </button>
+                </div>
             </div>
         );
     }
 
     if (testState === 'in-progress' && questions.length > 0) {
         const currentQuestion = questions[currentQuestionIndex];
+        const currentAnswer = answers[currentQuestionIndex];
         return (
             <div className="relative p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in">
                 <button onClick={() => setShowConfirmEndModal(true)} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 z-20">
                     <XIcon />
                 </button>
 
+                {settings.proctoring && !isFullscreenActive && !showConfirmEndModal && (
+                    <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-30 rounded-2xl">
+                        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl text-center w-11/12 max-w-sm">
+                            <h3 className="text-lg font-bold mb-2">Fullscreen Required</h3>
+                            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                                This is a proctored test. {proctoringLog.length} of {settings.proctoring.maxViolations} allowed violations used.
+                            </p>
+                            <button onClick={enterFullscreen} className="px-4 py-2 rounded-lg text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end text-sm font-semibold">Return to Fullscreen</button>
+                        </div>
+                    </div>
+                )}
+
                 {showConfirmEndModal && (
                     <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-30 rounded-2xl">
                         <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl text-center w-11/12 max-w-sm">
@@ -207,69 +572,75 @@ const Practice: React.FC = () => {
                             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">Are you sure? Your progress will not be saved.</p>
                             <div className="flex justify-center gap-4">
                                 <button onClick={() => setShowConfirmEndModal(false)} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold">Continue Test</button>
-                                <button onClick={resetTest} className="px-4 py-2 rounded-lg bg-red-500 text-white text-sm font-semibold">End Test</button>
+                                <button onClick={endTest} className="px-4 py-2 rounded-lg bg-red-500 text-white text-sm font-semibold">End Test</button>
                             </div>
                         </div>
                     </div>
                 )}
 
                 <div className="flex justify-between items-center mb-4">
-                    <button onClick={() => setShowConfirmEndModal(true)} className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white">
-                        <ArrowLeftIcon />
-                        <span className="ml-2">Back to Topics</span>
-                    </button>
+                    <div className="flex items-center gap-4">
+                        <button onClick={() => setShowConfirmEndModal(true)} className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white">
+                            <ArrowLeftIcon />
+                            <span className="ml-2">Back to Topics</span>
+                        </button>
+                        <KeyboardShortcuts
+                            active={!showConfirmEndModal}
+                            shortcuts={[
+                                optionShortcut,
+                                { keys: ['Enter', 'n'], display: 'Enter or N', label: 'Next question, once answered', action: showExplanation ? goToNextQuestion : undefined },
+                            ]}
+                        />
+                    </div>
+                    {settings.proctoring && (
+                        <span className={`text-sm font-semibold ${proctoringLog.length > 0 ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                            Proctored · {proctoringLog.length}/{settings.proctoring.maxViolations} violations
+                        </span>
+                    )}
                     <div className="flex items-center text-lg font-semibold text-fire-red-end">
                         <ClockIcon />
                         <span className="ml-2">{Math.floor(timeLeft / 60)}:{('0' + timeLeft % 60).slice(-2)}</span>
                     </div>
                 </div>
 
-                <div className="mb-4">
-                    <p className="text-sm text-gray-500 dark:text-gray-400">Question {currentQuestionIndex + 1} of {questions.length}</p>
-                    <p className="text-xl font-semibold mt-1">{currentQuestion.question}</p>
-                </div>
+                {questionNotice && <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">{questionNotice}</p>}
 
-                <div className="space-y-3">
-                    {currentQuestion.options.map((option, index) => {
-                        const isSelected = answers[currentQuestionIndex] === option;
-                        const isCorrect = currentQuestion.correctAnswer === option;
-                        let buttonClass = 'border-gray-300 dark:border-gray-600 hover:border-fire-orange-start hover:bg-orange-50 dark:hover:bg-gray-700';
-                        if (showExplanation) {
-                            if (isCorrect) {
-                                buttonClass = 'bg-green-100 border-green-500 text-green-800 dark:bg-green-900 dark:text-green-200 dark:border-green-700';
-                            } else if (isSelected && !isCorrect) {
-                                buttonClass = 'bg-red-100 border-red-500 text-red-800 dark:bg-red-900 dark:text-red-200 dark:border-red-700';
-                            }
-                        } else if (isSelected) {
-                             buttonClass = 'border-fire-orange-start bg-orange-100 dark:bg-gray-700 dark:border-fire-orange-start';
-                        }
-                        return (
-                            <button
-                                key={index}
-                                onClick={() => handleAnswer(option)}
-                                disabled={showExplanation}
-                                className={`w-full text-left p-4 border-2 rounded-lg transition-all ${buttonClass}`}
-                            >
-                                {option}
-                            </button>
-                        )
-                    })}
-                </div>
+                {/* A reading passage stays beside its questions */}
+                <div className={currentQuestion.passage ? 'grid lg:grid-cols-2 gap-6 items-start' : ''}>
+                    {currentQuestion.passage && (
+                        <PassagePanel passage={currentQuestion.passage} range={passageGroupRange(questions, currentQuestionIndex)} />
+                    )}
+                    <div>
+                        <QuestionCard
+                            question={currentQuestion}
+                            index={currentQuestionIndex}
+                            total={questions.length}
+                            selectedAnswer={answers[currentQuestionIndex]}
+                            revealed={showExplanation}
+                            onSelect={handleAnswer}
+                            keyboard
+                        />
+                        <p className="sr-only" aria-live="polite">
+                            {showExplanation && (currentAnswer === null
+                                ? `Time's up. The correct answer is ${formatAnswer(currentQuestion, currentQuestion.correctAnswer)}.`
+                                : isCorrectAnswer(currentQuestion, currentAnswer) ? 'Correct.' : `Incorrect. The correct answer is ${formatAnswer(currentQuestion, currentQuestion.correctAnswer)}.`)}
+                        </p>
+                        <SavedQuestionControls
+                            key={currentQuestionIndex}
+                            question={currentQuestion}
+                            topic={selectedTopic.name}
+                            saved={savedQuestions[questionKey(currentQuestion)]}
+                            onChange={saved => setSavedQuestions(prev => updateSavedQuestions(prev, questionKey(currentQuestion), saved))}
+                        />
+                        <ReportQuestionButton key={`report-${currentQuestionIndex}`} question={currentQuestion} topic={selectedTopic.name} />
 
-                {showExplanation && (
-                    <div className="mt-6 p-4 bg-orange-50 dark:bg-gray-700/50 rounded-lg animate-fade-in">
-                        <div className="flex items-start">
-                            <LightbulbIcon className="text-yellow-500 mt-1" />
-                            <div className="ml-3">
-                                <h3 className="font-bold">Explanation</h3>
-                                <p className="text-sm mt-1">{currentQuestion.explanation}</p>
-                            </div>
-                        </div>
-                        <button onClick={goToNextQuestion} className="mt-4 w-full px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
-                            {currentQuestionIndex < questions.length - 1 ? 'Next Question' : 'Finish Test'}
-                        </button>
+                        {showExplanation && (
+                            <button ref={nextButtonRef} onClick={goToNextQuestion} aria-keyshortcuts="Enter N" className="mt-4 w-full px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                                {currentQuestionIndex < questions.length - 1 ? 'Next Question' : 'Finish Test'}
+                            </button>
+                        )}
                     </div>
-                )}
+                </div>
             </div>
         );
     }
@@ -277,8 +648,159 @@ const Practice: React.FC = () => {
     return null;
 };
 
+interface TestSetupProps {
+    topic: Topic;
+    skillRating: number | null;
+    settings: TestSettings;
+    onChange: (settings: TestSettings) => void;
+    onStart: () => void;
+    onBack: () => void;
+}
+
+const TestSetup: React.FC<TestSetupProps> = ({ topic, skillRating, settings, onChange, onStart, onBack }) => {
+    const update = (changes: Partial<TestSettings>) => onChange({ ...settings, ...changes });
+    const isPerQuestion = settings.timeLimitMode === 'per-question';
+    // Procedural questions only exist for some topics and subtopics
+    const sources = questionSources.filter(({ value }) => value !== 'generated' || hasGenerators(topic.name, settings.subtopic));
+
+    const selectSubtopic = (subtopic: string | undefined) => update({
+        subtopic,
+        ...(settings.questionSource === 'generated' && !hasGenerators(topic.name, subtopic) ? { questionSource: 'ai' } : {}),
+    });
+
+    return (
+        <div className="max-w-2xl mx-auto p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in">
+            <button onClick={onBack} className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white mb-4">
+                <ArrowLeftIcon />
+                <span className="ml-2">Back to Topics</span>
+            </button>
+            <h1 className="text-3xl font-bold text-center mb-1">{topic.name}</h1>
+            <p className="text-center text-gray-500 dark:text-gray-400 mb-6">{topic.description}</p>
+            {/* Subtopic */}
+            <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Focus</label>
+                <select value={settings.subtopic ?? ''} onChange={e => selectSubtopic(e.target.value || undefined)} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                    <option value="">All subtopics</option>
+                    {topic.subtopics.map(s => <option key={s.key} value={s.name}>{s.name}</option>)}
+                </select>
+            </div>
+            {/* Difficulty */}
+            <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Difficulty</label>
+                <div className="grid grid-cols-4 gap-2 rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                    <button onClick={() => update({ adaptive: true })} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${settings.adaptive ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>Adaptive</button>
+                    {difficulties.map(d => (
+                        <button key={d} onClick={() => update({ difficulty: d, adaptive: false })} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${!settings.adaptive && settings.difficulty === d ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>{d}</button>
+                    ))}
+                </div>
+                {settings.adaptive && (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        {skillRating === null
+                            ? `No skill rating yet, so this test will be ${recommendDifficulty(INITIAL_RATING)}.`
+                            : `Your skill level is ${skillLevel(skillRating)} (${Math.round(skillRating)}), so this test will be ${recommendDifficulty(skillRating)}.`}
+                        {` Questions are pitched so you answer about ${Math.round(TARGET_SUCCESS_RATE * 100)}% correctly.`}
+                    </p>
+                )}
+            </div>
+            {/* Question Source */}
+            <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Questions</label>
+                <div className={`grid ${sources.length > 3 ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-3'} gap-2 rounded-lg bg-gray-100 dark:bg-gray-700 p-1`}>
+                    {sources.map(({ value, label }) => (
+                        <button key={value} onClick={() => update({ questionSource: value })} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${(settings.questionSource ?? 'ai') === value ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>{label}</button>
+                    ))}
+                </div>
+            </div>
+            {/* Question Format */}
+            {supportsPassages(topic.name) && (
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Format</label>
+                    <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                        {questionFormats.map(({ value, label }) => (
+                            <button key={value} onClick={() => update({ questionFormat: value })} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${(settings.questionFormat ?? 'standalone') === value ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>{label}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {/* Question Count */}
+            <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Number of Questions: {settings.questionCount}</label>
+                <input type="range" min="3" max="20" value={settings.questionCount} onChange={e => update({ questionCount: Number(e.target.value) })} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 accent-fire-orange-start"/>
+            </div>
+            {/* Time Limit */}
+            <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Timer</label>
+                <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                    {(['per-test', 'per-question'] as PracticeTimeLimitMode[]).map(mode => (
+                        <button key={mode} onClick={() => update({ timeLimitMode: mode, timeLimitSeconds: defaultTimeLimits[mode] })} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${settings.timeLimitMode === mode ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>
+                            {mode === 'per-test' ? 'Whole Test' : 'Per Question'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="mb-4">
+                {isPerQuestion ? (
+                    <>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Time per Question: {settings.timeLimitSeconds}s</label>
+                        <input type="range" min="15" max="180" step="15" value={settings.timeLimitSeconds} onChange={e => update({ timeLimitSeconds: Number(e.target.value) })} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 accent-fire-orange-start"/>
+                    </>
+                ) : (
+                    <>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Time Limit: {settings.timeLimitSeconds / 60} min</label>
+                        <input type="range" min="60" max="3600" step="60" value={settings.timeLimitSeconds} onChange={e => update({ timeLimitSeconds: Number(e.target.value) })} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 accent-fire-orange-start"/>
+                    </>
+                )}
+            </div>
+            {/* Abandon window */}
+            <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Auto-submit if left unfinished for</label>
+                <select value={settings.abandonAfterMinutes ?? DEFAULT_ABANDON_AFTER_MINUTES} onChange={e => update({ abandonAfterMinutes: Number(e.target.value) })} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                    {abandonWindows.map(w => <option key={w.minutes} value={w.minutes}>{w.label}</option>)}
+                </select>
+            </div>
+            {/* Proctoring */}
+            <div className="mb-4">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" checked={!!settings.proctoring} onChange={e => update({ proctoring: e.target.checked ? { maxViolations: DEFAULT_MAX_VIOLATIONS } : undefined })} className="accent-fire-orange-start" />
+                    Proctored mode
+                </label>
+                {settings.proctoring && (
+                    <>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The test runs in fullscreen. Switching tabs, leaving the window, copying, pasting and exiting fullscreen are logged with your result.</p>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-2 mb-2">Auto-submit after</label>
+                        <select value={settings.proctoring.maxViolations} onChange={e => update({ proctoring: { maxViolations: Number(e.target.value) } })} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                            {maxViolationOptions.map(n => <option key={n} value={n}>{n} violation{n === 1 ? '' : 's'}</option>)}
+                        </select>
+                    </>
+                )}
+            </div>
+            {/* Scoring */}
+            <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Scoring</label>
+                <select value={settings.scoringScheme} onChange={e => update({ scoringScheme: e.target.value as ScoringSchemeId })} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                    {Object.values(scoringSchemes).map(scheme => <option key={scheme.id} value={scheme.id}>{scheme.name}</option>)}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{scoringSchemes[settings.scoringScheme].description}</p>
+            </div>
+            <button onClick={onStart} className="w-full px-6 py-3 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                Start Test
+            </button>
+        </div>
+    );
+};
+
 const TopicSelection: React.FC = () => {
     const navigate = useNavigate();
+    const { user } = useAuth();
+    const [dueReviews, setDueReviews] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (!user) return;
+        countDueReviews(user.id)
+            .then(setDueReviews)
+            .catch((e: any) => console.warn("Could not count due reviews:", e.message));
+    }, [user]);
+
     return (
         <div className="animate-fade-in">
             <h1 className="text-3xl font-bold mb-6">Choose a Topic to Practice</h1>
@@ -287,8 +809,20 @@ const TopicSelection: React.FC = () => {
                     <div key={topic.key} className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg hover:shadow-2xl hover:-translate-y-1 transition-all transform cursor-pointer" onClick={() => navigate(`/practice/${topic.key}`)}>
                         <h2 className="text-xl font-bold text-fire-orange-start">{topic.name}</h2>
                         <p className="mt-2 text-gray-600 dark:text-gray-400">{topic.description}</p>
+                        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{topic.subtopics.length} subtopics</p>
                     </div>
                 ))}
+                <div className="p-6 bg-gradient-to-br from-fire-orange-start to-fire-red-end text-white rounded-2xl shadow-lg hover:shadow-2xl hover:-translate-y-1 transition-all transform cursor-pointer" onClick={() => navigate('/practice/mock-exam')}>
+                    <h2 className="text-xl font-bold">Full-Length Mock Exam</h2>
+                    <p className="mt-2 opacity-90">Simulate a real exam with timed sections and a question palette.</p>
+                </div>
+                <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg hover:shadow-2xl hover:-translate-y-1 transition-all transform cursor-pointer" onClick={() => navigate('/practice/review')}>
+                    <h2 className="text-xl font-bold text-fire-orange-start">Mistake Notebook</h2>
+                    <p className="mt-2 text-gray-600 dark:text-gray-400">Review questions you got wrong, spaced out until they stick.</p>
+                    <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                        {dueReviews === null ? 'Daily review' : dueReviews > 0 ? `${dueReviews} due for review today` : 'Nothing due today'}
+                    </p>
+                </div>
             </div>
         </div>
     );
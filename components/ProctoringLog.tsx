@@ -0,0 +1,34 @@
+import React from 'react';
+import { ProctoringEvent } from '../types';
+import { violationLabels } from '../services/proctoring';
+
+/** The violations recorded during a proctored test, in the order they happened. */
+export const ProctoringLog: React.FC<{ events: ProctoringEvent[]; maxViolations?: number }> = ({ events, maxViolations }) => (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-x-auto text-left">
+        <h3 className="text-xl font-bold mb-1">Proctoring Log</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {events.length === 0 ? 'No violations were recorded.' : `${events.length} violation${events.length === 1 ? '' : 's'} recorded`}
+            {maxViolations !== undefined && ` · limit ${maxViolations}`}
+        </p>
+        {events.length > 0 && (
+            <table className="w-full text-sm text-left">
+                <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                        <th className="py-2">Time</th>
+                        <th className="py-2">Event</th>
+                        <th className="py-2 text-right">Question</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {events.map((event, i) => (
+                        <tr key={i} className="border-b border-gray-200 dark:border-gray-700 last:border-0">
+                            <td className="py-2">{new Date(event.at).toLocaleTimeString()}</td>
+                            <td className="py-2 font-medium">{violationLabels[event.kind]}</td>
+                            <td className="py-2 text-right">{event.questionIndex + 1}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
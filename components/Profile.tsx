@@ -6,6 +6,7 @@ import { MailIcon, UsersIcon, EditIcon, TrashIcon, FlameIcon } from './Icons';
 import { Profile as ProfileType, CommunityPost } from '../types';
 import Avatar from './Avatar';
 import { PostCard } from './Community';
+import XpActivity from './XpActivity';
 import DatabaseSetupInstructions from './DatabaseSetupInstructions';
 
 const Profile: React.FC = () => {
@@ -137,6 +138,13 @@ const Profile: React.FC = () => {
         setUploading(false);
     };
 
+    const handleScoreChange = (score: number) => {
+        setViewedProfile(prev => prev ? { ...prev, score } : null);
+        if (isOwnProfile) {
+            setCurrentUserProfile(prev => prev ? { ...prev, score } : null);
+        }
+    };
+
     const handleDeleteAccount = async () => {
         if (window.confirm("Are you absolutely sure you want to delete your account? This action is irreversible and will delete all your data.")) {
             alert("Account deletion initiated. For this to work fully, a Supabase Edge Function is required to delete user data before deleting the auth user. Signing out as a placeholder.");
@@ -227,6 +235,8 @@ const Profile: React.FC = () => {
                 </div>
             </div>
 
+            <XpActivity userId={viewedProfile.id} isOwnProfile={isOwnProfile} onScoreChange={handleScoreChange} />
+
             {/* Recent Posts */}
             <div className="mt-6 p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
                 <h2 className="text-xl font-bold flex items-center mb-4"><UsersIcon className="mr-2"/> Recent Posts</h2>
@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Question } from '../types';
+import { decodeSelection, encodeSelection, formatAnswer, getQuestionType, parseNumericAnswer } from '../services/answers';
+import { isCorrectAnswer } from '../services/scoring';
+import { LightbulbIcon, ChevronUpIcon, ChevronDownIcon } from './Icons';
+import DataSetView from './DataSetView';
+import RichText from './RichText';
+import { useKeyboardShortcuts, optionShortcuts, optionKeyLabel } from './KeyboardShortcuts';
+
+interface QuestionCardProps {
+    question: Question;
+    index: number;
+    total: number;
+    selectedAnswer: string | null;
+    // Once revealed, the correct option and a wrong selection are highlighted.
+    revealed: boolean;
+    onSelect?: (option: string) => void;
+    showExplanation?: boolean;
+    // Label of the button that submits a typed, multi-select or ordering answer
+    submitLabel?: string;
+    // Options can be picked with the keyboard, and focus moves to each new question
+    keyboard?: boolean;
+}
+
+const typeHints: Record<string, string> = {
+    'numeric': 'Type your answer.',
+    'multi-select': 'Choose all that apply.',
+    'ordering': 'Arrange the items in the correct order.',
+};
+
+const optionClasses = {
+    idle: 'border-gray-300 dark:border-gray-600 hover:border-fire-orange-start hover:bg-orange-50 dark:hover:bg-gray-700',
+    selected: 'border-fire-orange-start bg-orange-100 dark:bg-gray-700 dark:border-fire-orange-start',
+    correct: 'bg-green-100 border-green-500 text-green-800 dark:bg-green-900 dark:text-green-200 dark:border-green-700',
+    wrong: 'bg-red-100 border-red-500 text-red-800 dark:bg-red-900 dark:text-red-200 dark:border-red-700',
+    neutral: 'border-gray-300 dark:border-gray-600',
+};
+
+interface AnswerInputProps {
+    question: Question;
+    selectedAnswer: string | null;
+    revealed: boolean;
+    onSelect?: (answer: string) => void;
+    submitLabel: string;
+    keyboard: boolean;
+}
+
+// How a revealed option is read out, since its colour can't be seen
+const RevealedStatus: React.FC<{ isCorrect: boolean; isSelected: boolean }> = ({ isCorrect, isSelected }) => (
+    isCorrect ? <span className="sr-only"> (correct answer)</span>
+        : isSelected ? <span className="sr-only"> (your answer, incorrect)</span>
+        : null
+);
+
+const SubmitButton: React.FC<{ label: string; disabled: boolean; onClick: () => void }> = ({ label, disabled, onClick }) => (
+    <button onClick={onClick} disabled={disabled} className="mt-4 px-6 py-2 font-semibold text-white bg-fire-orange-start rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50">
+        {label}
+    </button>
+);
+
+const SingleChoiceOptions: React.FC<AnswerInputProps> = ({ question, selectedAnswer, revealed, onSelect, keyboard }) => {
+    useKeyboardShortcuts(optionShortcuts(question.options, option => onSelect?.(option)), keyboard && !revealed && !!onSelect, true);
+    return (
+        <div className="space-y-3">
+            {question.options.map((option, optionIndex) => {
+                const isSelected = selectedAnswer === option;
+                const isCorrect = question.correctAnswer === option;
+                let buttonClass = optionClasses.idle;
+                if (revealed) {
+                    buttonClass = isCorrect ? optionClasses.correct : isSelected ? optionClasses.wrong : optionClasses.neutral;
+                } else if (isSelected) {
+                    buttonClass = optionClasses.selected;
+                }
+                return (
+                    <button
+                        key={optionIndex}
+                        onClick={() => onSelect?.(option)}
+                        disabled={revealed || !onSelect}
+                        aria-keyshortcuts={keyboard ? optionKeyLabel(optionIndex) : undefined}
+                        className={`w-full text-left p-4 border-2 rounded-lg transition-all ${buttonClass}`}
+                    >
+                        <RichText text={option} inline literalAsterisks />
+                        {revealed && <RevealedStatus isCorrect={isCorrect} isSelected={isSelected} />}
+                    </button>
+                )
+            })}
+        </div>
+    );
+};
+
+const MultiSelectOptions: React.FC<AnswerInputProps> = ({ question, selectedAnswer, revealed, onSelect, submitLabel, keyboard }) => {
+    const [draft, setDraft] = useState<string[]>(() => decodeSelection(selectedAnswer));
+    const selected = revealed ? decodeSelection(selectedAnswer) : draft;
+    const correct = question.correctAnswers ?? [];
+
+    const toggle = (option: string) => setDraft(current =>
+        current.includes(option) ? current.filter(o => o !== option) : question.options.filter(o => o === option || current.includes(o))
+    );
+    const submit = () => {
+        if (draft.length > 0) onSelect?.(encodeSelection(draft)!);
+    };
+
+    // Enter is left to the page until there is a selection to submit
+    useKeyboardShortcuts([
+        ...optionShortcuts(question.options, toggle),
+        { keys: ['Enter'], label: submitLabel, action: draft.length > 0 ? submit : undefined },
+    ], keyboard && !revealed && !!onSelect, true);
+
+    return (
+        <div>
+            <div className="space-y-3">
+                {question.options.map((option, optionIndex) => {
+                    const isSelected = selected.includes(option);
+                    let buttonClass = isSelected ? optionClasses.selected : optionClasses.idle;
+                    if (revealed) {
+                        buttonClass = correct.includes(option) ? optionClasses.correct : isSelected ? optionClasses.wrong : optionClasses.neutral;
+                    }
+                    return (
+                        <button
+                            key={optionIndex}
+                            onClick={() => toggle(option)}
+                            disabled={revealed || !onSelect}
+                            aria-pressed={isSelected}
+                            aria-keyshortcuts={keyboard ? optionKeyLabel(optionIndex) : undefined}
+                            className={`w-full flex items-center text-left p-4 border-2 rounded-lg transition-all ${buttonClass}`}
+                        >
+                            <span className={`flex-shrink-0 w-5 h-5 mr-3 rounded border-2 ${isSelected ? 'bg-fire-orange-start border-fire-orange-start' : 'border-gray-400'}`}></span>
+                            <RichText text={option} inline literalAsterisks />
+                            {revealed && <RevealedStatus isCorrect={correct.includes(option)} isSelected={isSelected} />}
+                        </button>
+                    );
+                })}
+            </div>
+            {!revealed && onSelect && (
+                <SubmitButton label={submitLabel} disabled={draft.length === 0} onClick={submit} />
+            )}
+        </div>
+    );
+};
+
+const OrderingList: React.FC<AnswerInputProps> = ({ question, selectedAnswer, revealed, onSelect, submitLabel, keyboard }) => {
+    const saved = decodeSelection(selectedAnswer);
+    const [draft, setDraft] = useState<string[]>(() => saved.length === question.options.length ? saved : question.options);
+    const sequence = revealed && saved.length > 0 ? saved : draft;
+    const correct = question.correctAnswers ?? [];
+
+    const move = (from: number, to: number) => setDraft(current => {
+        const next = [...current];
+        [next[from], next[to]] = [next[to], next[from]];
+        return next;
+    });
+    const submit = () => onSelect?.(encodeSelection(draft)!);
+
+    useKeyboardShortcuts([{ keys: ['Enter'], label: submitLabel, action: submit }], keyboard && !revealed && !!onSelect, true);
+
+    return (
+        <div>
+            <ol className="space-y-3">
+                {sequence.map((item, position) => {
+                    let itemClass = optionClasses.neutral;
+                    if (revealed && saved.length > 0) {
+                        itemClass = correct[position] === item ? optionClasses.correct : optionClasses.wrong;
+                    }
+                    return (
+                        <li key={item} className={`flex items-center gap-3 p-4 border-2 rounded-lg ${itemClass}`}>
+                            <span className="font-semibold text-gray-500 dark:text-gray-400">{position + 1}.</span>
+                            <RichText text={item} inline literalAsterisks className="flex-grow" />
+                            {!revealed && onSelect && (
+                                <span className="flex flex-col">
+                                    <button onClick={() => move(position, position - 1)} disabled={position === 0} aria-label="Move up" className="text-gray-500 hover:text-fire-orange-start disabled:opacity-30">
+                                        <ChevronUpIcon size={18} />
+                                    </button>
+                                    <button onClick={() => move(position, position + 1)} disabled={position === sequence.length - 1} aria-label="Move down" className="text-gray-500 hover:text-fire-orange-start disabled:opacity-30">
+                                        <ChevronDownIcon size={18} />
+                                    </button>
+                                </span>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+            {!revealed && onSelect && (
+                <SubmitButton label={submitLabel} disabled={false} onClick={submit} />
+            )}
+            {revealed && (saved.length === 0 || !isCorrectAnswer(question, selectedAnswer)) && (
+                <p className="mt-3 text-sm"><span className="font-semibold">Correct order:</span> {question.correctAnswer}</p>
+            )}
+        </div>
+    );
+};
+
+const NumericEntry: React.FC<AnswerInputProps> = ({ question, selectedAnswer, revealed, onSelect, submitLabel, keyboard }) => {
+    const [draft, setDraft] = useState(selectedAnswer ?? '');
+    const isValid = parseNumericAnswer(draft, question.unit) !== null;
+
+    const submit = () => {
+        if (isValid) onSelect?.(draft.trim());
+    };
+
+    if (revealed) {
+        const isCorrect = isCorrectAnswer(question, selectedAnswer);
+        return (
+            <div className="space-y-3">
+                {selectedAnswer !== null && (
+                    <div className={`p-4 border-2 rounded-lg ${isCorrect ? optionClasses.correct : optionClasses.wrong}`}>
+                        Your answer: {formatAnswer(question, selectedAnswer)}
+                    </div>
+                )}
+                {!isCorrect && (
+                    <div className={`p-4 border-2 rounded-lg ${optionClasses.correct}`}>
+                        Correct answer: {question.correctAnswer}{question.unit ? ` ${question.unit}` : ''}
+                        {question.tolerance ? <span className="text-sm"> (±{question.tolerance})</span> : null}
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <div className="flex items-center gap-3">
+                <input
+                    type="text"
+                    inputMode="decimal"
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && submit()}
+                    disabled={!onSelect}
+                    autoFocus={keyboard}
+                    placeholder="Your answer"
+                    aria-label="Your answer"
+                    className="w-full max-w-xs p-3 border-2 rounded-lg bg-transparent border-gray-300 dark:border-gray-600 focus:outline-none focus:border-fire-orange-start"
+                />
+                {question.unit && <span className="font-semibold text-gray-600 dark:text-gray-300">{question.unit}</span>}
+            </div>
+            {draft.trim() && !isValid && (
+                <p className="mt-2 text-sm text-red-500">Enter a number{question.unit ? ` in ${question.unit}` : ''}, e.g. 12.5 or 3/4.</p>
+            )}
+            {onSelect && <SubmitButton label={submitLabel} disabled={!isValid} onClick={submit} />}
+        </div>
+    );
+};
+
+const answerInputs = {
+    'single-choice': SingleChoiceOptions,
+    'numeric': NumericEntry,
+    'multi-select': MultiSelectOptions,
+    'ordering': OrderingList,
+};
+
+/** The answer input for a question without its text, e.g. to pick the corrected answer of a reported question. */
+export const AnswerPicker: React.FC<{ question: Question; selectedAnswer: string | null; onSelect: (answer: string) => void; submitLabel: string }> = ({ question, selectedAnswer, onSelect, submitLabel }) => {
+    const AnswerInput = answerInputs[getQuestionType(question)];
+    return <AnswerInput key={selectedAnswer ?? ''} question={question} selectedAnswer={selectedAnswer} revealed={false} onSelect={onSelect} submitLabel={submitLabel} keyboard={false} />;
+};
+
+const QuestionCard: React.FC<QuestionCardProps> = ({ question, index, total, selectedAnswer, revealed, onSelect, showExplanation = revealed, submitLabel = 'Submit Answer', keyboard = false }) => {
+    const type = getQuestionType(question);
+    const AnswerInput = answerInputs[type];
+    const questionRef = useRef<HTMLDivElement>(null);
+
+    // Screen readers start each question from its text; a numeric answer box takes focus itself
+    useEffect(() => {
+        if (keyboard && type !== 'numeric') questionRef.current?.focus();
+    }, [keyboard, type, index, question]);
+
+    return (
+        <div>
+            {question.dataSet && <DataSetView dataSet={question.dataSet} />}
+            <div className="mb-4">
+                <div className="flex items-center gap-2">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Question {index + 1} of {total}</p>
+                    {(question.source === 'bank' || question.source === 'generated') && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200">Verified</span>
+                    )}
+                </div>
+                <div ref={questionRef} tabIndex={-1} className="focus:outline-none">
+                    <RichText text={question.question} literalAsterisks className="text-xl font-semibold mt-1" />
+                </div>
+                {typeHints[type] && <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{typeHints[type]}</p>}
+            </div>
+
+            {/* Remounted per question and per saved answer, so a draft never leaks into another question */}
+            <AnswerInput
+                key={`${index}:${question.question}:${selectedAnswer ?? ''}`}
+                question={question}
+                selectedAnswer={selectedAnswer}
+                revealed={revealed}
+                onSelect={onSelect}
+                submitLabel={submitLabel}
+                keyboard={keyboard}
+            />
+
+            {showExplanation && (
+                <div className="mt-6 p-4 bg-orange-50 dark:bg-gray-700/50 rounded-lg animate-fade-in">
+                    <div className="flex items-start">
+                        <LightbulbIcon className="text-yellow-500 mt-1" />
+                        <div className="ml-3">
+                            <h3 className="font-bold">Explanation</h3>
+                            <RichText text={question.explanation} className="text-sm mt-1" />
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default QuestionCard;
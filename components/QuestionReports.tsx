@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AppContexts';
+import { loadOpenReports, resolveReport, reportReasonLabel } from '../services/questionReports';
+import { formatAnswer, getQuestionType, parseNumericAnswer } from '../services/answers';
+import { syncQuestionBank, QUESTION_BANK_VERSION } from '../services/questionBank';
+import { QuestionReport } from '../types';
+import { FlagIcon } from './Icons';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import QuestionCard, { AnswerPicker } from './QuestionCard';
+
+const ReportCard: React.FC<{ report: QuestionReport; onResolved: (message: string) => void }> = ({ report, onResolved }) => {
+    const { question } = report;
+    // Encoded like a response; null keeps the current answer
+    const [correctedAnswer, setCorrectedAnswer] = useState<string | null>(null);
+    const [note, setNote] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // The database compares numeric answers in the question's unit
+    const pickCorrectedAnswer = (answer: string) => setCorrectedAnswer(
+        getQuestionType(question) === 'numeric' ? String(parseNumericAnswer(answer, question.unit)) : answer
+    );
+
+    const resolve = async (accept: boolean) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const changed = accept && correctedAnswer !== null;
+            const regraded = await resolveReport(report.id, accept, { correctedAnswer: changed ? correctedAnswer : undefined, note });
+            onResolved(accept
+                ? `Report accepted${changed ? `; ${regraded} test result${regraded === 1 ? '' : 's'} regraded` : ''}.`
+                : 'Report rejected.');
+        } catch (e: any) {
+            console.error("Failed to resolve report", e);
+            setError(e.message);
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <div>
+                    <span className="px-2 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200">{reportReasonLabel(report.reason)}</span>
+                    <span className="ml-2 text-sm font-semibold text-fire-orange-start">{report.topic}</span>
+                </div>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(report.created_at).toLocaleString()}</span>
+            </div>
+            {report.details && <p className="mb-4 p-3 rounded-lg bg-gray-100 dark:bg-gray-700 text-sm whitespace-pre-wrap">{report.details}</p>}
+
+            <QuestionCard question={question} index={0} total={1} selectedAnswer={null} revealed />
+
+            <div className="mt-4 space-y-3 text-sm">
+                <div>
+                    <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">Correct answer</p>
+                    <AnswerPicker question={question} selectedAnswer={correctedAnswer} onSelect={pickCorrectedAnswer} submitLabel="Use as Correct Answer" />
+                    {correctedAnswer !== null && (
+                        <p className="mt-2">
+                            New answer: <span className="font-semibold">{formatAnswer(question, correctedAnswer)}</span>
+                            <button onClick={() => setCorrectedAnswer(null)} className="ml-2 text-fire-orange-start hover:underline">Keep current</button>
+                        </p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Accepting with a new answer regrades every saved attempt at this question and adjusts XP.</p>
+                </div>
+                <textarea
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    rows={2}
+                    placeholder="Resolution note (optional)"
+                    className="w-full p-2 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start"
+                />
+                {error && <p className="text-red-500">Could not resolve the report: {error}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={() => resolve(false)} disabled={isSaving} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 font-semibold disabled:opacity-50">Reject</button>
+                    <button onClick={() => resolve(true)} disabled={isSaving} className="px-4 py-2 rounded-lg text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end font-semibold disabled:opacity-50">Accept</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/** The admin review queue of reported questions. */
+const QuestionReports: React.FC = () => {
+    const { profile } = useAuth();
+    const [reports, setReports] = useState<QuestionReport[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [syncError, setSyncError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!profile?.is_admin) return;
+        setLoading(true);
+        loadOpenReports()
+            .then(data => {
+                setReports(data);
+                setFetchError(null);
+            })
+            .catch((e: any) => {
+                console.error("Error fetching question reports:", e.message);
+                setFetchError(e.message);
+            })
+            .finally(() => setLoading(false));
+    }, [profile?.is_admin]);
+
+    if (!profile?.is_admin) {
+        return <div className="text-center p-10">Only admins can review question reports.</div>;
+    }
+
+    const handleResolved = (id: string, text: string) => {
+        setReports(prev => prev.filter(r => r.id !== id));
+        setMessage(text);
+    };
+
+    // Bank questions are graded against the server's copy, so it has to follow edits to the bank
+    const syncBank = async () => {
+        setIsSyncing(true);
+        setSyncError(null);
+        try {
+            const synced = await syncQuestionBank();
+            setMessage(`Question bank version ${QUESTION_BANK_VERSION} synced: ${synced} questions.`);
+        } catch (e: any) {
+            console.error("Failed to sync the question bank", e);
+            setSyncError(e.message);
+        }
+        setIsSyncing(false);
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto animate-fade-in space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h1 className="text-3xl font-bold">Question Reports</h1>
+                <button onClick={syncBank} disabled={isSyncing} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold disabled:opacity-50">
+                    {isSyncing ? 'Syncing...' : 'Sync Question Bank'}
+                </button>
+            </div>
+            {syncError && <p className="text-sm text-red-500">Could not sync the question bank: {syncError}</p>}
+            {message && <p className="p-3 rounded-lg bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 text-sm">{message}</p>}
+            {loading ? (
+                <div className="text-center p-10">Loading reports...</div>
+            ) : fetchError ? (
+                <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />
+            ) : reports.length === 0 ? (
+                <div className="p-10 bg-white dark:bg-gray-800 rounded-2xl shadow-lg flex flex-col items-center text-center">
+                    <FlagIcon size={48} className="text-gray-400 mb-4" />
+                    <h3 className="font-semibold">No open reports</h3>
+                    <p className="text-sm text-gray-500">Questions users report will appear here for review.</p>
+                </div>
+            ) : (
+                reports.map(report => (
+                    <ReportCard key={report.id} report={report} onResolved={text => handleResolved(report.id, text)} />
+                ))
+            )}
+        </div>
+    );
+};
+
+export default QuestionReports;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AppContexts';
+import { reportQuestion, reportReasons } from '../services/questionReports';
+import { Question, ReportReason } from '../types';
+import { FlagIcon } from './Icons';
+
+interface ReportQuestionButtonProps {
+    question: Question;
+    topic: string;
+}
+
+/** Lets the user flag a question for review by an admin. */
+const ReportQuestionButton: React.FC<ReportQuestionButtonProps> = ({ question, topic }) => {
+    const { user } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    const [reason, setReason] = useState<ReportReason>('wrong-answer');
+    const [details, setDetails] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [isSent, setIsSent] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const submit = async () => {
+        if (!user) return;
+        setIsSending(true);
+        setError(null);
+        try {
+            await reportQuestion(user.id, topic, question, reason, details);
+            setIsSent(true);
+            setIsOpen(false);
+        } catch (e: any) {
+            console.error("Failed to report question", e);
+            setError(e.message);
+        }
+        setIsSending(false);
+    };
+
+    if (isSent) {
+        return <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Thanks, this question has been reported for review.</p>;
+    }
+
+    return (
+        <div className="mt-2 text-sm">
+            {!isOpen ? (
+                <button onClick={() => setIsOpen(true)} className="flex items-center gap-1 font-semibold text-gray-500 dark:text-gray-400 hover:text-red-500">
+                    <FlagIcon size={16} />
+                    Report Question
+                </button>
+            ) : (
+                <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <p className="font-semibold mb-2">What's wrong with this question?</p>
+                    <div className="space-y-2 mb-3">
+                        {reportReasons.map(r => (
+                            <label key={r.value} className="flex items-start gap-2 cursor-pointer">
+                                <input type="radio" name="report-reason" checked={reason === r.value} onChange={() => setReason(r.value)} className="mt-1 accent-fire-orange-start" />
+                                <span>
+                                    <span className="font-medium">{r.label}</span>
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400">{r.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    <textarea
+                        value={details}
+                        onChange={e => setDetails(e.target.value)}
+                        rows={2}
+                        placeholder="Anything else the reviewer should know (optional)"
+                        className="w-full p-2 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start"
+                    />
+                    {error && <p className="mt-2 text-red-500">Could not send the report: {error}</p>}
+                    <div className="flex justify-end gap-2 mt-2">
+                        <button onClick={() => setIsOpen(false)} className="px-4 py-1 rounded-lg bg-gray-200 dark:bg-gray-600 font-semibold">Cancel</button>
+                        <button onClick={submit} disabled={isSending} className="px-4 py-1 rounded-lg bg-red-500 text-white font-semibold disabled:opacity-50">
+                            {isSending ? 'Sending...' : 'Send Report'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReportQuestionButton;
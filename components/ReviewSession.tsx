@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AppContexts';
+import { loadDueReviews, recordReview, gradeAnswer, reviewGrades, ReviewGrade } from '../services/reviewQueue';
+import { ReviewItem } from '../types';
+import { ArrowLeftIcon, BrainCircuitIcon, MicVocalIcon } from './Icons';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import QuestionCard from './QuestionCard';
+import RichText from './RichText';
+import { PassagePanel } from './PassageView';
+
+type ReviewState = 'loading' | 'in-progress' | 'completed';
+
+interface ReviewOutcome {
+    remembered: boolean;
+    mastered: boolean;
+}
+
+// Spoken answers can't be marked automatically, so the user grades their own recall
+const VoiceFlashcard: React.FC<{ item: ReviewItem; index: number; total: number; onGrade: (grade: ReviewGrade) => void; graded: boolean }> = ({ item, index, total, onGrade, graded }) => {
+    const [showAnswer, setShowAnswer] = useState(false);
+    return (
+        <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2 flex items-center gap-2">
+                <MicVocalIcon size={16} /> Question {index + 1} of {total} · from a voice test
+            </p>
+            <RichText text={item.question.question} literalAsterisks className="text-xl font-semibold mb-6" />
+            {showAnswer ? (
+                <>
+                    <div className="p-4 mb-4 rounded-lg bg-gray-100 dark:bg-gray-700">
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Answer</p>
+                        <RichText text={item.question.correctAnswer} literalAsterisks className="text-lg font-semibold" />
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">How well did you remember it?</p>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {reviewGrades.map(({ grade, label }) => (
+                            <button key={grade} disabled={graded} onClick={() => onGrade(grade)} className="px-4 py-2 font-semibold rounded-lg border-2 border-gray-300 dark:border-gray-600 hover:border-fire-orange-start disabled:opacity-50">
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <button onClick={() => setShowAnswer(true)} className="w-full px-6 py-2 font-semibold rounded-lg bg-gray-200 dark:bg-gray-600 hover:opacity-90 transition-opacity">
+                    Show Answer
+                </button>
+            )}
+        </div>
+    );
+};
+
+/** The daily Mistake Notebook session: serves due items and reschedules each one as it is answered. */
+const ReviewSession: React.FC = () => {
+    const { user } = useAuth();
+    const [state, setState] = useState<ReviewState>('loading');
+    const [items, setItems] = useState<ReviewItem[]>([]);
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [answer, setAnswer] = useState<string | null>(null);
+    const [outcomes, setOutcomes] = useState<ReviewOutcome[]>([]);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [isGrading, setIsGrading] = useState(false);
+
+    useEffect(() => {
+        if (!user) return;
+        loadDueReviews(user.id)
+            .then(due => {
+                setItems(due);
+                setState(due.length > 0 ? 'in-progress' : 'completed');
+            })
+            .catch((e: any) => {
+                console.error("Error fetching review items:", e.message);
+                setFetchError(e.message);
+            });
+    }, [user]);
+
+    const currentItem = items[currentIndex];
+    const isGraded = outcomes.length > currentIndex;
+
+    const grade = async (value: ReviewGrade) => {
+        if (isGraded || isGrading) return;
+        setIsGrading(true);
+        try {
+            const updated = await recordReview(currentItem, value);
+            setOutcomes(prev => [...prev, { remembered: value >= 3, mastered: updated.mastered_at !== null }]);
+            setSaveError(null);
+        } catch (e: any) {
+            console.error("Failed to save review", e);
+            setSaveError(e.message);
+            // The session carries on; the item stays due and comes back next time
+            setOutcomes(prev => [...prev, { remembered: value >= 3, mastered: false }]);
+        }
+        setIsGrading(false);
+    };
+
+    const handleAnswer = (option: string) => {
+        if (isGraded || isGrading) return;
+        setAnswer(option);
+        grade(gradeAnswer(currentItem.question, option));
+    };
+
+    const goToNextItem = () => {
+        setAnswer(null);
+        if (currentIndex < items.length - 1) {
+            setCurrentIndex(currentIndex + 1);
+        } else {
+            setState('completed');
+        }
+    };
+
+    if (fetchError) {
+        return <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />;
+    }
+
+    if (state === 'loading') {
+        return (
+            <div className="flex flex-col items-center justify-center h-full">
+                <div className="w-16 h-16 border-4 border-t-transparent border-fire-orange-start rounded-full animate-spin"></div>
+                <p className="mt-4 text-lg">Loading your review queue...</p>
+            </div>
+        );
+    }
+
+    if (state === 'completed') {
+        const remembered = outcomes.filter(o => o.remembered).length;
+        const mastered = outcomes.filter(o => o.mastered).length;
+        return (
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in text-center">
+                {items.length === 0 ? (
+                    <>
+                        <BrainCircuitIcon size={48} className="mx-auto text-gray-400 mb-4" />
+                        <h2 className="text-2xl font-bold mb-2">Nothing to review today</h2>
+                        <p className="text-gray-600 dark:text-gray-400 mb-6">Questions you get wrong in Practice and Voice Tests show up here when they are due.</p>
+                    </>
+                ) : (
+                    <>
+                        <h2 className="text-3xl font-bold text-fire-orange-start mb-4">Review Complete!</h2>
+                        <p className="text-5xl font-bold mb-2">{remembered} / {outcomes.length}</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                            remembered{mastered > 0 ? ` · ${mastered} mastered and retired from the notebook` : ''}
+                        </p>
+                    </>
+                )}
+                <Link to="/practice" className="inline-block px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                    Back to Topics
+                </Link>
+            </div>
+        );
+    }
+
+    const isVoiceItem = currentItem.source === 'voice';
+    return (
+        <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in">
+            <div className="flex justify-between items-center mb-4">
+                <Link to="/practice" className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white">
+                    <ArrowLeftIcon />
+                    <span className="ml-2">Back to Topics</span>
+                </Link>
+                <span className="text-sm font-semibold text-gray-500 dark:text-gray-400">Mistake Notebook · {currentItem.topic}</span>
+            </div>
+
+            {saveError && (
+                <p className="mb-4 text-sm text-red-500">Could not save your last review: {saveError}</p>
+            )}
+
+            <div className={currentItem.question.passage ? 'grid lg:grid-cols-2 gap-6 items-start' : ''}>
+                {currentItem.question.passage && (
+                    <PassagePanel passage={currentItem.question.passage} range={[currentIndex, currentIndex]} />
+                )}
+                <div>
+                    {isVoiceItem ? (
+                        <VoiceFlashcard key={currentItem.id} item={currentItem} index={currentIndex} total={items.length} onGrade={grade} graded={isGraded || isGrading} />
+                    ) : (
+                        <QuestionCard
+                            question={currentItem.question}
+                            index={currentIndex}
+                            total={items.length}
+                            selectedAnswer={answer}
+                            revealed={isGraded}
+                            onSelect={handleAnswer}
+                        />
+                    )}
+
+                    {isGraded && (
+                        <button onClick={goToNextItem} className="mt-4 w-full px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                            {currentIndex < items.length - 1 ? 'Next Question' : 'Finish Review'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReviewSession;
@@ -0,0 +1,28 @@
+import React, { useMemo } from 'react';
+import { renderRichText } from '../services/richText';
+
+interface RichTextProps {
+    text: string;
+    // For text inside buttons, list items and headings: no paragraphs or tables
+    inline?: boolean;
+    // For question and option text, where * is multiplication rather than emphasis
+    literalAsterisks?: boolean;
+    className?: string;
+}
+
+// Tailwind resets list, table and code styles, so they are restored for rendered Markdown
+const blockClasses = [
+    '[&_p]:my-1 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_a]:underline',
+    '[&_code]:px-1 [&_code]:rounded [&_code]:bg-black/10 [&_pre]:p-2 [&_pre]:rounded [&_pre]:bg-black/10 [&_pre]:overflow-x-auto',
+    '[&_table]:my-2 [&_table]:border-collapse [&_th]:border [&_td]:border [&_th]:px-2 [&_td]:px-2 [&_th]:border-gray-400 [&_td]:border-gray-400',
+].join(' ');
+
+/** Markdown with LaTeX math and tables, rendered safely. */
+const RichText: React.FC<RichTextProps> = ({ text, inline = false, literalAsterisks = false, className = '' }) => {
+    const html = useMemo(() => renderRichText(text, inline, literalAsterisks), [text, inline, literalAsterisks]);
+    return inline
+        ? <span className={className} dangerouslySetInnerHTML={{ __html: html }} />
+        : <div className={`break-words ${blockClasses} ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default RichText;
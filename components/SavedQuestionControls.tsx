@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AppContexts';
+import { saveQuestion } from '../services/savedQuestions';
+import { Question, SavedQuestion } from '../types';
+import { BookmarkIcon, EditIcon } from './Icons';
+
+interface SavedQuestionControlsProps {
+    question: Question;
+    // Topic the question is filed under on the Saved Questions page
+    topic: string;
+    saved: SavedQuestion | null | undefined;
+    onChange: (saved: SavedQuestion | null) => void;
+}
+
+/** Bookmark toggle and personal note for one question. */
+const SavedQuestionControls: React.FC<SavedQuestionControlsProps> = ({ question, topic, saved, onChange }) => {
+    const { user } = useAuth();
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const bookmarked = saved?.bookmarked ?? false;
+    const note = saved?.note ?? '';
+
+    const save = async (changes: { bookmarked: boolean; note: string }) => {
+        if (!user) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            onChange(await saveQuestion(user.id, topic, question, changes));
+            setIsEditing(false);
+        } catch (e: any) {
+            console.error("Failed to save question", e);
+            setError(e.message);
+        }
+        setIsSaving(false);
+    };
+
+    const startEditing = () => {
+        setDraft(note);
+        setIsEditing(true);
+    };
+
+    return (
+        <div className="mt-4 text-sm">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={() => save({ bookmarked: !bookmarked, note })}
+                    disabled={isSaving}
+                    aria-pressed={bookmarked}
+                    className={`flex items-center gap-1 font-semibold ${bookmarked ? 'text-fire-orange-start' : 'text-gray-500 dark:text-gray-400 hover:text-fire-orange-start'}`}
+                >
+                    <BookmarkIcon size={16} className={bookmarked ? 'fill-current' : ''} />
+                    {bookmarked ? 'Bookmarked' : 'Bookmark'}
+                </button>
+                {!isEditing && (
+                    <button onClick={startEditing} className="flex items-center gap-1 font-semibold text-gray-500 dark:text-gray-400 hover:text-fire-orange-start">
+                        <EditIcon size={16} />
+                        {note ? 'Edit Note' : 'Add Note'}
+                    </button>
+                )}
+            </div>
+
+            {isEditing ? (
+                <div className="mt-2">
+                    <textarea
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        rows={4}
+                        placeholder="Write down your approach, a shortcut or a trap to avoid..."
+                        className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start"
+                    />
+                    <div className="flex justify-end gap-2 mt-2">
+                        <button onClick={() => setIsEditing(false)} className="px-4 py-1 rounded-lg bg-gray-200 dark:bg-gray-600 font-semibold">Cancel</button>
+                        <button onClick={() => save({ bookmarked, note: draft })} disabled={isSaving} className="px-4 py-1 rounded-lg text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end font-semibold disabled:opacity-50">
+                            {isSaving ? 'Saving...' : 'Save Note'}
+                        </button>
+                    </div>
+                </div>
+            ) : note && (
+                <p className="mt-2 p-3 rounded-lg bg-orange-50 dark:bg-gray-700 whitespace-pre-wrap">{note}</p>
+            )}
+
+            {error && <p className="mt-2 text-red-500">Could not save: {error}</p>}
+        </div>
+    );
+};
+
+export default SavedQuestionControls;
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AppContexts';
+import { loadSavedQuestions } from '../services/savedQuestions';
+import { addMistakes, collectMistakes } from '../services/reviewQueue';
+import { isCorrectAnswer } from '../services/scoring';
+import { shuffle } from '../services/random';
+import { SavedQuestion } from '../types';
+import { ArrowLeftIcon, BookmarkIcon } from './Icons';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import QuestionCard from './QuestionCard';
+import SavedQuestionControls from './SavedQuestionControls';
+import { PassagePanel } from './PassageView';
+
+type PageState = 'browsing' | 'in-progress' | 'completed';
+
+/** Bookmarked and annotated questions, which can be retaken as a custom test. */
+const SavedQuestions: React.FC = () => {
+    const { user } = useAuth();
+    const [saved, setSaved] = useState<SavedQuestion[]>([]);
+    const [topicFilter, setTopicFilter] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+
+    const [pageState, setPageState] = useState<PageState>('browsing');
+    const [testItems, setTestItems] = useState<SavedQuestion[]>([]);
+    const [answers, setAnswers] = useState<(string | null)[]>([]);
+    const [currentIndex, setCurrentIndex] = useState(0);
+
+    useEffect(() => {
+        if (!user) return;
+        setLoading(true);
+        loadSavedQuestions(user.id)
+            .then(data => {
+                setSaved(data);
+                setFetchError(null);
+            })
+            .catch((e: any) => {
+                console.error("Error fetching saved questions:", e.message);
+                setFetchError(e.message);
+            })
+            .finally(() => setLoading(false));
+    }, [user]);
+
+    const savedTopics = [...new Set(saved.map(s => s.topic))].sort();
+    const filtered = topicFilter ? saved.filter(s => s.topic === topicFilter) : saved;
+
+    const updateItem = (id: string, update: SavedQuestion | null) =>
+        setSaved(prev => update ? prev.map(s => s.id === id ? update : s) : prev.filter(s => s.id !== id));
+
+    const startTest = () => {
+        const items = shuffle(filtered);
+        setTestItems(items);
+        setAnswers(new Array(items.length).fill(null));
+        setCurrentIndex(0);
+        setPageState('in-progress');
+    };
+
+    const handleAnswer = (option: string) => {
+        const newAnswers = [...answers];
+        newAnswers[currentIndex] = option;
+        setAnswers(newAnswers);
+    };
+
+    const goToNextQuestion = () => {
+        if (currentIndex < testItems.length - 1) {
+            setCurrentIndex(currentIndex + 1);
+            return;
+        }
+        setPageState('completed');
+        // Saved questions missed again go to the Mistake Notebook
+        if (user) {
+            addMistakes(user.id, collectMistakes(testItems.map(item => item.question), answers, i => testItems[i].topic));
+        }
+    };
+
+    if (loading) {
+        return <div className="text-center p-10">Loading saved questions...</div>;
+    }
+
+    if (fetchError) {
+        return <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />;
+    }
+
+    if (pageState === 'completed') {
+        const correct = testItems.filter((item, i) => isCorrectAnswer(item.question, answers[i])).length;
+        return (
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in text-center">
+                <h2 className="text-3xl font-bold text-fire-orange-start mb-4">Test Completed!</h2>
+                <p className="text-xl mb-2">You scored:</p>
+                <p className="text-5xl font-bold mb-2">{correct} / {testItems.length}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">Questions you missed have been added to your Mistake Notebook.</p>
+                <button onClick={() => setPageState('browsing')} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                    Back to Saved Questions
+                </button>
+            </div>
+        );
+    }
+
+    if (pageState === 'in-progress') {
+        const currentItem = testItems[currentIndex];
+        const isAnswered = answers[currentIndex] !== null;
+        return (
+            <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg animate-fade-in">
+                <div className="flex justify-between items-center mb-4">
+                    <button onClick={() => setPageState('browsing')} className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white">
+                        <ArrowLeftIcon />
+                        <span className="ml-2">Back to Saved Questions</span>
+                    </button>
+                    <span className="text-sm font-semibold text-gray-500 dark:text-gray-400">{currentItem.topic}</span>
+                </div>
+                <div className={currentItem.question.passage ? 'grid lg:grid-cols-2 gap-6 items-start' : ''}>
+                    {currentItem.question.passage && (
+                        <PassagePanel passage={currentItem.question.passage} range={[currentIndex, currentIndex]} />
+                    )}
+                    <div>
+                        <QuestionCard
+                            question={currentItem.question}
+                            index={currentIndex}
+                            total={testItems.length}
+                            selectedAnswer={answers[currentIndex]}
+                            revealed={isAnswered}
+                            onSelect={isAnswered ? undefined : handleAnswer}
+                        />
+                        {isAnswered && currentItem.note && (
+                            <p className="mt-4 p-3 rounded-lg bg-orange-50 dark:bg-gray-700 text-sm whitespace-pre-wrap">{currentItem.note}</p>
+                        )}
+                        {isAnswered && (
+                            <button onClick={goToNextQuestion} className="mt-4 w-full px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
+                                {currentIndex < testItems.length - 1 ? 'Next Question' : 'Finish Test'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-3xl mx-auto animate-fade-in space-y-6">
+            <h1 className="text-3xl font-bold">Saved Questions</h1>
+
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-2xl shadow-lg flex flex-col sm:flex-row sm:items-end gap-4">
+                <div className="flex-1">
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Topic</label>
+                    <select value={topicFilter} onChange={e => setTopicFilter(e.target.value)} className="w-full p-2 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                        <option value="">All topics</option>
+                        {savedTopics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+                    </select>
+                </div>
+                <button onClick={startTest} disabled={filtered.length === 0} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50">
+                    Take as a Test ({filtered.length})
+                </button>
+            </div>
+
+            {filtered.length === 0 ? (
+                <div className="p-10 bg-white dark:bg-gray-800 rounded-2xl shadow-lg flex flex-col items-center text-center">
+                    <BookmarkIcon size={48} className="text-gray-400 mb-4" />
+                    <h3 className="font-semibold">No saved questions yet</h3>
+                    <p className="text-sm text-gray-500">Bookmark a question or add a note to it during a test, or from your <Link to="/history" className="text-fire-orange-start hover:underline">test history</Link>.</p>
+                </div>
+            ) : (
+                filtered.map((item, i) => (
+                    <div key={item.id} className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
+                        <p className="text-xs font-semibold uppercase text-fire-orange-start mb-2">{item.topic}</p>
+                        {item.question.passage && (
+                            <div className="mb-4">
+                                <PassagePanel passage={item.question.passage} range={[i, i]} />
+                            </div>
+                        )}
+                        <QuestionCard
+                            question={item.question}
+                            index={i}
+                            total={filtered.length}
+                            selectedAnswer={null}
+                            revealed
+                        />
+                        <SavedQuestionControls
+                            question={item.question}
+                            topic={item.topic}
+                            saved={item}
+                            onChange={update => updateItem(item.id, update)}
+                        />
+                    </div>
+                ))
+            )}
+        </div>
+    );
+};
+
+export default SavedQuestions;
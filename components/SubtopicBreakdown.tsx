@@ -0,0 +1,56 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { SubtopicResult } from '../types';
+import { findSubtopic, practicePath } from '../services/topics';
+
+export const subtopicAccuracy = (result: SubtopicResult) =>
+    result.attempted > 0 ? Math.round((result.correct / result.attempted) * 100) : 0;
+
+// Sums results for the same subtopic across several tests
+export const mergeSubtopicResults = (lists: SubtopicResult[][]): SubtopicResult[] => {
+    const merged = new Map<string, SubtopicResult>();
+    lists.flat().forEach(result => {
+        const total = merged.get(result.subtopic) ?? { subtopic: result.subtopic, correct: 0, attempted: 0, totalQuestions: 0 };
+        merged.set(result.subtopic, {
+            subtopic: result.subtopic,
+            correct: total.correct + result.correct,
+            attempted: total.attempted + result.attempted,
+            totalQuestions: total.totalQuestions + result.totalQuestions,
+        });
+    });
+    return [...merged.values()];
+};
+
+/** Accuracy per subtopic, with a link to drill each one. */
+export const SubtopicBreakdown: React.FC<{ results: SubtopicResult[]; title?: string }> = ({ results, title = 'Subtopics' }) => (
+    <div className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-x-auto text-left">
+        <h3 className="text-xl font-bold mb-4">{title}</h3>
+        <table className="w-full text-sm text-left">
+            <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                    <th className="py-2">Subtopic</th>
+                    <th className="py-2 text-right">Correct</th>
+                    <th className="py-2 text-right">Accuracy</th>
+                    <th className="py-2"></th>
+                </tr>
+            </thead>
+            <tbody>
+                {results.map(r => {
+                    const match = findSubtopic(r.subtopic);
+                    return (
+                        <tr key={r.subtopic} className="border-b border-gray-200 dark:border-gray-700 last:border-0">
+                            <td className="py-2 font-medium">{r.subtopic}</td>
+                            <td className="py-2 text-right">{r.correct} / {r.totalQuestions}</td>
+                            <td className="py-2 text-right">{subtopicAccuracy(r)}%</td>
+                            <td className="py-2 text-right">
+                                {match && (
+                                    <Link to={practicePath(match.topic.name, match.subtopic.name)} className="font-semibold text-fire-orange-start hover:underline">Drill</Link>
+                                )}
+                            </td>
+                        </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+    </div>
+);
@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AppContexts';
+import { supabase } from '../services/supabase';
+import { formatScore, getScoringScheme, scorePassages } from '../services/scoring';
+import { questionKey } from '../services/reviewQueue';
+import { formatSeconds, targetPace } from '../services/timing';
+import { loadSavedQuestionsFor, updateSavedQuestions } from '../services/savedQuestions';
+import { SavedQuestion, TestResult, TestResponse, TestSettings } from '../types';
+import { ArrowLeftIcon, ClockIcon } from './Icons';
+import { topics } from '../services/topics';
+import { SectionBreakdown } from './MockExam';
+import QuestionCard from './QuestionCard';
+import SavedQuestionControls from './SavedQuestionControls';
+import ReportQuestionButton from './ReportQuestionButton';
+import { PassagePanel, PassageBreakdown, passageGroupRange } from './PassageView';
+import { SubtopicBreakdown } from './SubtopicBreakdown';
+import { ProctoringLog } from './ProctoringLog';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+
+const PAGE_SIZE = 10;
+
+type ScoreBand = 'all' | 'low' | 'medium' | 'high';
+
+// Bounds are on the stored percentage column: [min, max).
+// Negative marking can push a percentage below zero.
+const scoreBands: Record<ScoreBand, { label: string; min: number; max: number }> = {
+    all: { label: 'All Scores', min: -100, max: 101 },
+    low: { label: 'Below 40%', min: -100, max: 40 },
+    medium: { label: '40% - 74%', min: 40, max: 75 },
+    high: { label: '75% and above', min: 75, max: 101 },
+};
+
+interface HistoryFilters {
+    topic: string;
+    from: string;
+    to: string;
+    band: ScoreBand;
+}
+
+const emptyFilters: HistoryFilters = { topic: '', from: '', to: '', band: 'all' };
+
+// Local midnight at the start of a "YYYY-MM-DD" day; new Date() would read it as UTC
+const startOfLocalDay = (date: string, offsetDays = 0) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day + offsetDays);
+};
+
+const describeSettings = (settings: TestSettings) => {
+    const timer = settings.timeLimitMode === 'per-question'
+        ? `${settings.timeLimitSeconds}s per question`
+        : settings.timeLimitMode === 'per-section'
+            ? `${Math.round(settings.timeLimitSeconds / 60)} min per section`
+            : `${Math.round(settings.timeLimitSeconds / 60)} min total`;
+    const format = settings.questionFormat === 'passages' ? ' · Reading Comprehension' : '';
+    const proctored = settings.proctoring ? ' · Proctored' : '';
+    const difficulty = settings.adaptive ? `${settings.difficulty} (adaptive)` : settings.difficulty;
+    return `${difficulty} · ${settings.questionCount} questions · ${timer} · ${getScoringScheme(settings.scoringScheme).name}${format}${proctored}`;
+};
+
+const TestHistory: React.FC = () => {
+    const { resultId } = useParams<{ resultId?: string }>();
+
+    if (resultId) {
+        return <TestAttemptDetail resultId={resultId} />;
+    }
+    return <TestHistoryList />;
+};
+
+const TestHistoryList: React.FC = () => {
+    const { user } = useAuth();
+    const [results, setResults] = useState<TestResult[]>([]);
+    const [totalCount, setTotalCount] = useState(0);
+    const [page, setPage] = useState(0);
+    const [filters, setFilters] = useState<HistoryFilters>(emptyFilters);
+    const [loading, setLoading] = useState(true);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchResults = async () => {
+            if (!user) return;
+
+            setLoading(true);
+            setFetchError(null);
+
+            let query = supabase
+                .from('test_results')
+                .select('*', { count: 'exact' })
+                .eq('user_id', user.id);
+
+            if (filters.topic) {
+                query = query.eq('topic', filters.topic);
+            }
+            if (filters.from) {
+                query = query.gte('created_at', startOfLocalDay(filters.from).toISOString());
+            }
+            if (filters.to) {
+                // Include the whole "to" day
+                query = query.lt('created_at', startOfLocalDay(filters.to, 1).toISOString());
+            }
+            if (filters.band !== 'all') {
+                const band = scoreBands[filters.band];
+                query = query.gte('percentage', band.min).lt('percentage', band.max);
+            }
+
+            const { data, count, error } = await query
+                .order('created_at', { ascending: false })
+                .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+            if (error) {
+                console.error("Error fetching test history:", error.message);
+                setFetchError(error.message);
+            } else if (data) {
+                setResults(data as TestResult[]);
+                setTotalCount(count ?? 0);
+            }
+            setLoading(false);
+        };
+
+        fetchResults();
+    }, [user, filters, page]);
+
+    const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+        setPage(0);
+    };
+
+    const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+    const inputClass = "w-full p-2 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start";
+
+    return (
+        <div className="animate-fade-in">
+            <h1 className="text-3xl font-bold mb-6">Test History</h1>
+
+            {/* Filters */}
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-2xl shadow-lg mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Topic</label>
+                    <select value={filters.topic} onChange={e => updateFilter('topic', e.target.value)} className={inputClass}>
+                        <option value="">All Topics</option>
+                        {topics.map(t => <option key={t.key} value={t.name}>{t.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+                    <input type="date" value={filters.from} onChange={e => updateFilter('from', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+                    <input type="date" value={filters.to} onChange={e => updateFilter('to', e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Score</label>
+                    <select value={filters.band} onChange={e => updateFilter('band', e.target.value as ScoreBand)} className={inputClass}>
+                        {(Object.keys(scoreBands) as ScoreBand[]).map(band => <option key={band} value={band}>{scoreBands[band].label}</option>)}
+                    </select>
+                </div>
+                <div className="flex items-end">
+                    <button onClick={() => { setFilters(emptyFilters); setPage(0); }} className="w-full p-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold">Clear Filters</button>
+                </div>
+            </div>
+
+            {/* Results */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-hidden">
+                {loading ? (
+                    <div className="p-6 text-center">Loading test history...</div>
+                ) : fetchError ? (
+                    <div className="p-6">
+                        <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />
+                    </div>
+                ) : results.length === 0 ? (
+                    <div className="p-6 text-center text-gray-500">No tests match your filters.</div>
+                ) : (
+                    <ul>
+                        {results.map((result, index) => {
+                            const percentage = Math.round(result.percentage);
+                            return (
+                                <li key={result.id}>
+                                    <Link to={`/history/${result.id}`} className={`flex items-center justify-between p-4 hover:bg-gray-50 dark:hover:bg-gray-700/30 transition-colors ${index !== results.length - 1 ? 'border-b border-gray-200 dark:border-gray-700' : ''}`}>
+                                        <div>
+                                            <p className="font-semibold">{result.topic}{result.subtopic && <span className="font-normal text-gray-500 dark:text-gray-400"> · {result.subtopic}</span>}</p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(result.created_at).toLocaleString()}</p>
+                                        </div>
+                                        <div className="text-right">
+                                            <p className="font-semibold">{formatScore(result.score)} / {result.max_score ?? result.total_questions}</p>
+                                            <p className={`text-xs font-semibold ${percentage >= 75 ? 'text-green-500' : percentage >= 40 ? 'text-yellow-500' : 'text-red-500'}`}>{percentage}%</p>
+                                        </div>
+                                    </Link>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            {/* Pagination */}
+            {!loading && !fetchError && totalCount > PAGE_SIZE && (
+                <div className="flex items-center justify-between mt-4">
+                    <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold disabled:opacity-50">Previous</button>
+                    <span className="text-sm text-gray-600 dark:text-gray-400">Page {page + 1} of {pageCount}</span>
+                    <button onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 text-sm font-semibold disabled:opacity-50">Next</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TestAttemptDetail: React.FC<{ resultId: string }> = ({ resultId }) => {
+    const { user } = useAuth();
+    const [result, setResult] = useState<TestResult | null>(null);
+    const [responses, setResponses] = useState<TestResponse[]>([]);
+    const [savedQuestions, setSavedQuestions] = useState<Record<string, SavedQuestion>>({});
+    const [loading, setLoading] = useState(true);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchAttempt = async () => {
+            setLoading(true);
+            setFetchError(null);
+
+            const { data: resultData, error: resultError } = await supabase
+                .from('test_results')
+                .select('*')
+                .eq('id', resultId)
+                .single();
+
+            if (resultError) {
+                console.error("Error fetching test result:", resultError.message);
+                setFetchError(resultError.message);
+                setLoading(false);
+                return;
+            }
+            setResult(resultData);
+
+            const { data: responseData, error: responseError } = await supabase
+                .from('test_responses')
+                .select('*')
+                .eq('test_result_id', resultId)
+                .order('position', { ascending: true });
+
+            if (responseError) {
+                console.error("Error fetching test responses:", responseError.message);
+                setFetchError(responseError.message);
+            } else if (responseData) {
+                setResponses(responseData as TestResponse[]);
+                if (user) {
+                    loadSavedQuestionsFor(user.id, responseData.map(r => r.question))
+                        .then(setSavedQuestions)
+                        .catch(e => console.warn("Could not load saved questions:", e.message));
+                }
+            }
+            setLoading(false);
+        };
+
+        fetchAttempt();
+    }, [resultId, user]);
+
+    if (loading) {
+        return <div className="text-center p-10">Loading attempt...</div>;
+    }
+
+    if (fetchError) {
+        return (
+            <div className="p-6">
+                <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />
+            </div>
+        );
+    }
+
+    if (!result) {
+        return <div className="text-center p-10">Test not found.</div>;
+    }
+
+    const answeredQuestions = responses.map(r => r.question);
+    const passageResults = scorePassages(answeredQuestions, responses.map(r => r.selected_answer));
+
+    return (
+        <div className="max-w-3xl mx-auto animate-fade-in space-y-6">
+            <Link to="/history" className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white">
+                <ArrowLeftIcon />
+                <span className="ml-2">Back to History</span>
+            </Link>
+
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold">{result.topic}</h1>
+                    {result.subtopic && <p className="font-semibold text-fire-orange-start">{result.subtopic}</p>}
+                    <p className="flex items-center text-sm text-gray-500 dark:text-gray-400 mt-1">
+                        <ClockIcon size={16} />
+                        <span className="ml-2">{new Date(result.created_at).toLocaleString()}</span>
+                    </p>
+                    {result.settings && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{describeSettings(result.settings)}</p>
+                    )}
+                </div>
+                <p className="text-3xl font-bold text-fire-orange-start">{formatScore(result.score)} / {result.max_score ?? result.total_questions}</p>
+            </div>
+
+            {result.section_results && <SectionBreakdown results={result.section_results} />}
+            {passageResults.length > 0 && <PassageBreakdown results={passageResults} />}
+            {result.subtopic_results && result.subtopic_results.length > 1 && <SubtopicBreakdown results={result.subtopic_results} />}
+            {result.proctoring_log && <ProctoringLog events={result.proctoring_log} maxViolations={result.settings?.proctoring?.maxViolations} />}
+
+            {responses.length === 0 ? (
+                <div className="p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg text-center text-gray-500">
+                    The answers for this attempt were not recorded.
+                </div>
+            ) : (
+                responses.map((response, i) => (
+                    <div key={response.id} className="p-4 sm:p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
+                        {response.question.passage && response.question.passage.id !== answeredQuestions[i - 1]?.passage?.id && (
+                            <div className="mb-4">
+                                <PassagePanel passage={response.question.passage} range={passageGroupRange(answeredQuestions, i)} />
+                            </div>
+                        )}
+                        {response.section && (
+                            <p className="text-xs font-semibold uppercase text-fire-orange-start mb-2">{response.section}</p>
+                        )}
+                        <QuestionCard
+                            question={response.question}
+                            index={response.position}
+                            total={result.total_questions}
+                            selectedAnswer={response.selected_answer}
+                            revealed
+                        />
+                        {response.selected_answer === null && (
+                            <p className="mt-3 text-sm font-semibold text-gray-500">Not answered</p>
+                        )}
+                        {response.time_spent_seconds != null && (
+                            <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+                                Time spent: {formatSeconds(response.time_spent_seconds)} (target {formatSeconds(targetPace(response.section ?? result.topic))})
+                            </p>
+                        )}
+                        <SavedQuestionControls
+                            question={response.question}
+                            topic={response.section ?? result.topic}
+                            saved={savedQuestions[questionKey(response.question)]}
+                            onChange={saved => setSavedQuestions(prev => updateSavedQuestions(prev, questionKey(response.question), saved))}
+                        />
+                        <ReportQuestionButton question={response.question} topic={response.section ?? result.topic} />
+                    </div>
+                ))
+            )}
+        </div>
+    );
+};
+
+export default TestHistory;
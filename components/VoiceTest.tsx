@@ -1,16 +1,31 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { MicIcon, MicOffIcon, Volume2Icon, XIcon, ClockIcon } from './Icons';
 import { generateVoiceTestQuestions, evaluateSpokenAnswer } from '../services/geminiService';
-import { VoiceQuestion } from '../types';
+import { Difficulty, VoiceQuestion, VoiceResponse } from '../types';
+import { topics, getSubtopics } from '../services/topics';
+import { addMistakes, voiceQuestionToQuestion } from '../services/reviewQueue';
+import { saveVoiceTestResult } from '../services/voiceTests';
+import { timedVoiceAnswers } from '../services/timing';
+import { useAuth } from '../contexts/AppContexts';
+import RichText from './RichText';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+import { PaceBreakdown } from './PaceBreakdown';
 
 type TestPhase = 'setup' | 'loading' | 'in-progress' | 'evaluating' | 'finished';
 
 const QUESTION_TIME_LIMIT = 30; // 30 seconds per question
 
+// Charts and long reasoning puzzles do not work read aloud
+const voiceTopics = topics.filter(t => t.voice);
+
+const difficulties: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
 const VoiceTest: React.FC = () => {
+    const { user } = useAuth();
     // Test setup state
-    const [topic, setTopic] = useState('Quantitative Aptitude');
-    const [difficulty, setDifficulty] = useState('Medium');
+    const [topic, setTopic] = useState(voiceTopics[0].name);
+    const [subtopic, setSubtopic] = useState('');
+    const [difficulty, setDifficulty] = useState<Difficulty>('Medium');
     const [questionCount, setQuestionCount] = useState(5);
     
     // Test execution state
@@ -18,7 +33,10 @@ const VoiceTest: React.FC = () => {
     const [questions, setQuestions] = useState<VoiceQuestion[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
     const [score, setScore] = useState(0);
+    // The final answer to each question moved on from, with the time it took
+    const [responses, setResponses] = useState<VoiceResponse[]>([]);
     const [showConfirmEndModal, setShowConfirmEndModal] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
 
     // Speech recognition state
     const [isListening, setIsListening] = useState(false);
@@ -29,6 +47,9 @@ const VoiceTest: React.FC = () => {
     // Timer state
     const [timeLeft, setTimeLeft] = useState(QUESTION_TIME_LIMIT);
     const timerIntervalRef = useRef<number | null>(null);
+    // Time on the clock for the current question, across retries
+    const timerStartedAtRef = useRef<number | null>(null);
+    const questionSecondsRef = useRef(0);
 
     const recognitionRef = useRef<any>(null);
 
@@ -37,6 +58,10 @@ const VoiceTest: React.FC = () => {
             clearInterval(timerIntervalRef.current);
             timerIntervalRef.current = null;
         }
+        if (timerStartedAtRef.current !== null) {
+            questionSecondsRef.current += (Date.now() - timerStartedAtRef.current) / 1000;
+            timerStartedAtRef.current = null;
+        }
     }, []);
 
     const handleTimeUp = useCallback(() => {
@@ -52,6 +77,7 @@ const VoiceTest: React.FC = () => {
     const startTimer = useCallback(() => {
         stopTimer();
         setTimeLeft(QUESTION_TIME_LIMIT);
+        timerStartedAtRef.current = Date.now();
         timerIntervalRef.current = window.setInterval(() => {
             setTimeLeft(prev => {
                 if (prev <= 1) {
@@ -132,11 +158,14 @@ const VoiceTest: React.FC = () => {
 
     const startTest = async () => {
         setPhase('loading');
-        const fetchedQuestions = await generateVoiceTestQuestions(topic, difficulty, questionCount);
+        const fetchedQuestions = await generateVoiceTestQuestions(topic, difficulty, questionCount, subtopic || undefined);
         if (fetchedQuestions && fetchedQuestions.length > 0) {
             setQuestions(fetchedQuestions);
             setCurrentQuestionIndex(0);
             setScore(0);
+            setResponses([]);
+            setSaveError(null);
+            questionSecondsRef.current = 0;
             setTranscript('');
             setIsTranscriptFinal(false);
             setEvaluationResult(null);
@@ -156,15 +185,48 @@ const VoiceTest: React.FC = () => {
         recognitionRef.current.start();
     };
     
+    // A question's answer is final once the user moves on from its result
+    const withCurrentResponse = (): VoiceResponse[] => {
+        stopTimer();
+        const timeSpentSeconds = Math.round(questionSecondsRef.current);
+        questionSecondsRef.current = 0;
+        if (!evaluationResult) return responses;
+        const { question, answer } = questions[currentQuestionIndex];
+        return [...responses, {
+            question,
+            answer,
+            spokenAnswer: isTranscriptFinal ? transcript : null,
+            isCorrect: evaluationResult.isCorrect,
+            timeSpentSeconds,
+        }];
+    };
+
+    const finishTest = async (finalResponses: VoiceResponse[]) => {
+        setPhase('finished');
+        if (!user) return;
+        // Wrong answers go to the Mistake Notebook even if the result could not be saved
+        addMistakes(user.id, finalResponses
+            .filter(r => !r.isCorrect)
+            .map(r => ({ topic, source: 'voice', question: voiceQuestionToQuestion(r, subtopic || undefined) })));
+        setSaveError(null);
+        try {
+            await saveVoiceTestResult(user.id, { topic, subtopic: subtopic || undefined, difficulty, totalQuestions: questions.length, responses: finalResponses });
+        } catch (e: any) {
+            console.error("Failed to save voice test result", e);
+            setSaveError(e.message);
+        }
+    };
+
     const goToNextQuestion = () => {
+        const finalResponses = withCurrentResponse();
+        setResponses(finalResponses);
         setTranscript('');
         setIsTranscriptFinal(false);
         setEvaluationResult(null);
-        stopTimer();
         if (currentQuestionIndex < questions.length - 1) {
             setCurrentQuestionIndex(i => i + 1);
         } else {
-            setPhase('finished');
+            finishTest(finalResponses);
         }
     };
     
@@ -179,9 +241,10 @@ const VoiceTest: React.FC = () => {
     };
 
     const endTest = () => {
-        stopTimer();
+        const finalResponses = withCurrentResponse();
+        setResponses(finalResponses);
         setShowConfirmEndModal(false);
-        setPhase('finished');
+        finishTest(finalResponses);
     }
 
     const resetToSetup = () => {
@@ -190,6 +253,7 @@ const VoiceTest: React.FC = () => {
         setPhase('setup');
         setCurrentQuestionIndex(0);
         setScore(0);
+        setResponses([]);
         setQuestions([]);
         setTranscript('');
         setIsTranscriptFinal(false);
@@ -204,17 +268,23 @@ const VoiceTest: React.FC = () => {
                 {/* Topic */}
                 <div className="mb-4">
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Topic</label>
-                    <select value={topic} onChange={e => setTopic(e.target.value)} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
-                        <option>Quantitative Aptitude</option>
-                        <option>Verbal Ability</option>
-                        <option>General Knowledge</option>
+                    <select value={topic} onChange={e => { setTopic(e.target.value); setSubtopic(''); }} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                        {voiceTopics.map(t => <option key={t.key} value={t.name}>{t.name}</option>)}
+                    </select>
+                </div>
+                {/* Subtopic */}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Focus</label>
+                    <select value={subtopic} onChange={e => setSubtopic(e.target.value)} className="w-full p-3 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start">
+                        <option value="">All subtopics</option>
+                        {getSubtopics(topic).map(s => <option key={s.key} value={s.name}>{s.name}</option>)}
                     </select>
                 </div>
                 {/* Difficulty */}
                 <div className="mb-4">
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Difficulty</label>
                     <div className="grid grid-cols-3 gap-2 rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
-                        {['Easy', 'Medium', 'Hard'].map(d => (
+                        {difficulties.map(d => (
                             <button key={d} onClick={() => setDifficulty(d)} className={`px-4 py-2 text-sm font-semibold rounded-md transition ${difficulty === d ? 'bg-white dark:bg-gray-900 text-fire-orange-start shadow' : 'text-gray-600 dark:text-gray-300'}`}>{d}</button>
                         ))}
                     </div>
@@ -246,6 +316,16 @@ const VoiceTest: React.FC = () => {
                 <h2 className="text-3xl font-bold text-fire-orange-start mb-4">Test Finished!</h2>
                 <p className="text-xl mb-2">Your final score:</p>
                 <p className="text-5xl font-bold mb-6">{score} / {questions.length}</p>
+                {saveError && (
+                    <div className="my-6">
+                        <DatabaseSetupInstructions feature="weekly_progress" error={saveError} />
+                    </div>
+                )}
+                {responses.length > 0 && (
+                    <div className="mb-6">
+                        <PaceBreakdown answers={timedVoiceAnswers(topic, responses)} title="Your Pace" />
+                    </div>
+                )}
                 <button onClick={resetToSetup} className="px-6 py-2 font-semibold text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end rounded-lg hover:opacity-90 transition-opacity">
                     Take Another Test
                 </button>
@@ -282,11 +362,11 @@ const VoiceTest: React.FC = () => {
             )}
 
             <h1 className="text-2xl font-bold text-center mb-2 mt-8 sm:mt-0">AI Voice Test</h1>
-            <p className="text-center text-gray-500 dark:text-gray-400 mb-6">{topic} - {difficulty}</p>
+            <p className="text-center text-gray-500 dark:text-gray-400 mb-6">{subtopic ? `${topic} (${subtopic})` : topic} - {difficulty}</p>
             
             <div className="p-6 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-center min-h-[150px] flex flex-col justify-center">
                 <p className="text-sm text-gray-500">Question {currentQuestionIndex + 1} of {questions.length}</p>
-                <p className="text-xl font-semibold my-2">{currentQuestion?.question}</p>
+                {currentQuestion && <RichText text={currentQuestion.question} literalAsterisks className="text-xl font-semibold my-2" />}
                 <button onClick={() => speak(currentQuestion.question)} className="inline-flex items-center text-sm text-fire-orange-start font-medium hover:underline mx-auto">
                     <Volume2Icon /> <span className="ml-2">Read Aloud Again</span>
                 </button>
@@ -318,9 +398,7 @@ const VoiceTest: React.FC = () => {
                     
                     {evaluationResult && (
                         <div className="mt-2 animate-fade-in">
-                            <p className={`font-semibold ${evaluationResult.isCorrect ? 'text-green-500' : 'text-red-500'}`}>
-                                {evaluationResult.feedback}
-                            </p>
+                            <RichText text={evaluationResult.feedback} className={`font-semibold ${evaluationResult.isCorrect ? 'text-green-500' : 'text-red-500'}`} />
                             <div className="flex justify-center gap-4 mt-4">
                                 {!evaluationResult.isCorrect && timeLeft > 0 && (
                                     <button onClick={retryQuestion} className="px-4 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-600 rounded-lg">Try Again</button>
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AppContexts';
+import { loadXpEvents, adjustXp, recomputeXp, xpSourceLabels } from '../services/xp';
+import { XpEvent } from '../types';
+import { FlameIcon } from './Icons';
+import DatabaseSetupInstructions from './DatabaseSetupInstructions';
+
+interface XpActivityProps {
+    userId: string;
+    // Test results are private, so only the owner gets links to them
+    isOwnProfile: boolean;
+    onScoreChange: (score: number) => void;
+}
+
+const XpAdjustmentForm: React.FC<{ userId: string; onAdjusted: (score: number) => void }> = ({ userId, onAdjusted }) => {
+    const [amount, setAmount] = useState('');
+    const [note, setNote] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = async (action: () => Promise<number>) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            onAdjusted(await action());
+            setAmount('');
+            setNote('');
+        } catch (e: any) {
+            console.error("Failed to adjust XP", e);
+            setError(e.message);
+        }
+        setIsSaving(false);
+    };
+
+    const parsedAmount = Number(amount);
+    const canAdjust = Number.isInteger(parsedAmount) && parsedAmount !== 0 && note.trim() !== '';
+
+    return (
+        <div className="mt-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+            <p className="font-semibold mb-2">Adjust XP</p>
+            <div className="flex flex-wrap gap-2">
+                <input
+                    type="number"
+                    step={1}
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                    placeholder="±XP"
+                    className="w-24 p-2 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start"
+                />
+                <input
+                    type="text"
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    placeholder="Reason"
+                    className="flex-1 min-w-[10rem] p-2 bg-gray-100 dark:bg-gray-700 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-fire-orange-start"
+                />
+                <button onClick={() => run(() => adjustXp(userId, parsedAmount, note))} disabled={isSaving || !canAdjust} className="px-4 py-2 rounded-lg text-white bg-gradient-to-r from-fire-orange-start to-fire-red-end font-semibold disabled:opacity-50">Add</button>
+                <button onClick={() => run(() => recomputeXp(userId))} disabled={isSaving} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-600 font-semibold disabled:opacity-50">Recompute Total</button>
+            </div>
+            {error && <p className="mt-2 text-red-500">Could not update XP: {error}</p>}
+        </div>
+    );
+};
+
+/** A user's recent XP events, with adjustment controls for admins. */
+const XpActivity: React.FC<XpActivityProps> = ({ userId, isOwnProfile, onScoreChange }) => {
+    const { profile } = useAuth();
+    const [events, setEvents] = useState<XpEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    useEffect(() => {
+        setLoading(true);
+        loadXpEvents(userId)
+            .then(data => {
+                setEvents(data);
+                setFetchError(null);
+            })
+            .catch((e: any) => {
+                console.error("Error fetching XP activity:", e.message);
+                setFetchError(e.message);
+            })
+            .finally(() => setLoading(false));
+    }, [userId, refreshKey]);
+
+    const handleAdjusted = (score: number) => {
+        onScoreChange(score);
+        setRefreshKey(k => k + 1);
+    };
+
+    return (
+        <div className="mt-6 p-6 bg-white dark:bg-gray-800 rounded-2xl shadow-lg">
+            <h2 className="text-xl font-bold flex items-center mb-4"><FlameIcon className="mr-2 text-orange-500"/> XP Activity</h2>
+            {loading ? (
+                <p className="text-center py-4">Loading activity...</p>
+            ) : fetchError ? (
+                <DatabaseSetupInstructions feature="weekly_progress" error={fetchError} />
+            ) : events.length === 0 ? (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-4">No XP earned yet.</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {events.map(event => (
+                        <li key={event.id} className="flex items-center justify-between py-3 text-sm">
+                            <div>
+                                <p className="font-medium">
+                                    {isOwnProfile && event.test_result_id
+                                        ? <Link to={`/history/${event.test_result_id}`} className="hover:text-fire-orange-start">{xpSourceLabels[event.source]}</Link>
+                                        : xpSourceLabels[event.source]}
+                                </p>
+                                {event.note && <p className="text-gray-500 dark:text-gray-400">{event.note}</p>}
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(event.created_at).toLocaleString()}</p>
+                            </div>
+                            <span className={`font-semibold ${event.amount < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                                {event.amount > 0 ? '+' : ''}{event.amount.toLocaleString()} XP
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {profile?.is_admin && <XpAdjustmentForm userId={userId} onAdjusted={handleAdjusted} />}
+        </div>
+    );
+};
+
+export default XpActivity;
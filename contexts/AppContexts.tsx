@@ -46,7 +46,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 // Create profile if it doesn't exist for a new user
                 const { data: newProfile, error: insertError } = await supabase
                     .from('profiles')
-                    .insert({ id: currentUser.id, username: currentUser.email?.split('@')[0], score: 0 })
+                    .insert({ id: currentUser.id, username: currentUser.email?.split('@')[0] })
                     .select()
                     .single();
                 
@@ -0,0 +1,97 @@
+import { Question, QuestionType } from '../types';
+
+// Questions saved before question types existed are single-choice
+export const getQuestionType = (question: Question): QuestionType => question.type ?? 'single-choice';
+
+// Multi-select and ordering responses are stored as a JSON array of option texts,
+// so every response still fits in one string (and one selected_answer column)
+export const encodeSelection = (values: string[]): string | null => values.length > 0 ? JSON.stringify(values) : null;
+
+export const decodeSelection = (answer: string | null | undefined): string[] => {
+    if (!answer) return [];
+    try {
+        const values: unknown = JSON.parse(answer);
+        return Array.isArray(values) && values.every(value => typeof value === 'string') ? values : [];
+    } catch {
+        return [];
+    }
+};
+
+// Units a numeric answer may be given in, as multiples of the first unit of each group
+const UNIT_GROUPS: Record<string, number>[] = [
+    { 'm': 1, 'mm': 0.001, 'cm': 0.01, 'km': 1000, 'metre': 1, 'metres': 1, 'meter': 1, 'meters': 1 },
+    { 's': 1, 'sec': 1, 'secs': 1, 'second': 1, 'seconds': 1, 'min': 60, 'mins': 60, 'minute': 60, 'minutes': 60, 'h': 3600, 'hr': 3600, 'hrs': 3600, 'hour': 3600, 'hours': 3600, 'day': 86400, 'days': 86400 },
+    { 'g': 1, 'kg': 1000, 'gram': 1, 'grams': 1 },
+    { 'l': 1, 'ml': 0.001, 'litre': 1, 'litres': 1, 'liter': 1, 'liters': 1 },
+    { 'm/s': 1, 'km/h': 1000 / 3600, 'km/hr': 1000 / 3600, 'kmph': 1000 / 3600 },
+    { '₹': 1, 'rs': 1, 'rs.': 1, 'inr': 1, 'rupee': 1, 'rupees': 1 },
+    { '%': 1, 'percent': 1 },
+];
+
+const normalizeUnit = (unit: string) => unit.toLowerCase().replace(/\s+/g, '');
+
+const findUnitGroup = (unit: string) => UNIT_GROUPS.find(group => normalizeUnit(unit) in group);
+
+// A number, a fraction or a mixed number such as "2 1/2"
+const NUMBER_PATTERN = /^(.*?)\s*(-?\d+\s+\d+\/\d+|-?\d+(?:\.\d+)?(?:\/\d+(?:\.\d+)?)?)\s*(.*)$/;
+
+const parseQuantity = (text: string): number | null => {
+    const mixed = text.match(/^(-?)(\d+)\s+(\d+)\/(\d+)$/);
+    if (mixed) {
+        const magnitude = Number(mixed[2]) + Number(mixed[3]) / Number(mixed[4]);
+        return mixed[1] ? -magnitude : magnitude;
+    }
+    const [numerator, denominator = '1'] = text.split('/');
+    return Number(denominator) === 0 ? null : Number(numerator) / Number(denominator);
+};
+
+/**
+ * Reads a typed numeric answer, expressed in `unit` if one is given. Thousands
+ * separators are ignored, and a unit written before or after the number is
+ * converted when it measures the same thing (e.g. "1.5 km" for metres). Returns
+ * null if the text is not a number or names an incompatible unit.
+ */
+export const parseNumericAnswer = (text: string, unit?: string): number | null => {
+    const match = text.trim().replace(/(\d),(?=\d)/g, '$1').match(NUMBER_PATTERN);
+    if (!match) return null;
+
+    const value = parseQuantity(match[2]);
+    if (value === null || !Number.isFinite(value)) return null;
+
+    const prefix = match[1].trim();
+    const suffix = match[3].trim();
+    if (prefix && suffix) return null;
+    const written = prefix || suffix;
+    if (!written) return value;
+    if (unit && normalizeUnit(written) === normalizeUnit(unit)) return value;
+
+    const group = unit ? findUnitGroup(unit) : undefined;
+    const key = normalizeUnit(written);
+    if (!unit || !group || !(key in group)) return null;
+    return value * group[key] / group[normalizeUnit(unit)];
+};
+
+// Absorbs floating point noise when no tolerance is given
+const NUMERIC_EPSILON = 1e-9;
+
+export const isCorrectNumericAnswer = (question: Question, answer: string): boolean => {
+    const value = parseNumericAnswer(answer, question.unit);
+    const expected = Number(question.correctAnswer);
+    if (value === null || !Number.isFinite(expected)) return false;
+    return Math.abs(value - expected) <= (question.tolerance ?? 0) + NUMERIC_EPSILON * Math.max(1, Math.abs(expected));
+};
+
+/** The response as it should be shown to a reader, whatever the question type. */
+export const formatAnswer = (question: Question, answer: string | null | undefined): string => {
+    if (answer === null || answer === undefined) return '';
+    switch (getQuestionType(question)) {
+        case 'multi-select':
+            return decodeSelection(answer).join('; ');
+        case 'ordering':
+            return decodeSelection(answer).join(' → ');
+        case 'numeric':
+            return question.unit && parseNumericAnswer(answer) !== null ? `${answer} ${question.unit}` : answer;
+        default:
+            return answer;
+    }
+};
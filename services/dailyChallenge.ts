@@ -0,0 +1,131 @@
+import { supabase } from './supabase';
+import { drawBankQuestions } from './questionBank';
+import { createSeededRandom } from './random';
+import { startTestAttempt, submitTestAttempt, GradedTest, TestAttempt } from './testResults';
+import { topics } from './topics';
+import { DailyChallengeAttempt, DailyChallengeEntry, Question, TestSettings } from '../types';
+
+// Two questions from every topic, drawn at Medium where the bank allows
+export const DAILY_CHALLENGE_QUESTIONS_PER_TOPIC = 2;
+export const DAILY_CHALLENGE_TIME_LIMIT_SECONDS = 15 * 60;
+
+export const DAILY_LEADERBOARD_SIZE = 20;
+
+export interface DailyChallenge {
+    date: string;
+    questions: Question[];
+    // Topic of each question, used as its section
+    questionTopics: string[];
+}
+
+// The challenge changes at midnight UTC, so everyone is on the same one
+export const challengeDate = (now = new Date()) => now.toISOString().slice(0, 10);
+
+/**
+ * The questions of the challenge for a date. They are drawn from the question
+ * bank with the date as the seed, so every user gets the same test.
+ */
+export const buildDailyChallenge = (date: string): DailyChallenge => {
+    const questions: Question[] = [];
+    const questionTopics: string[] = [];
+    topics.forEach(topic => {
+        const drawn = drawBankQuestions(topic.name, DAILY_CHALLENGE_QUESTIONS_PER_TOPIC, 'Medium', [], 'standalone', undefined, createSeededRandom(`daily:${date}:${topic.key}`));
+        questions.push(...drawn);
+        questionTopics.push(...drawn.map(() => topic.name));
+    });
+    return { date, questions, questionTopics };
+};
+
+export const loadDailyAttempt = async (userId: string, date: string): Promise<DailyChallengeAttempt | null> => {
+    const { data, error } = await supabase
+        .from('daily_challenge_attempts')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('challenge_date', date)
+        .maybeSingle();
+    if (error) throw error;
+    return data as DailyChallengeAttempt | null;
+};
+
+// The challenge as a test registered for grading
+const asTestAttempt = (userId: string, challenge: DailyChallenge, settings: TestSettings): Omit<TestAttempt, 'id'> => ({
+    userId,
+    topic: 'Daily Challenge',
+    mode: 'daily-challenge',
+    settings,
+    questions: challenge.questions,
+    questionSections: challenge.questionTopics
+});
+
+/**
+ * Starts the user's attempt at a challenge. Starting uses up the day's
+ * attempt; an attempt that was already started, e.g. in another tab, is
+ * returned as it is. The database keeps the day's challenge from its first
+ * start and rejects any other set of questions.
+ */
+export const startDailyChallenge = async (userId: string, challenge: DailyChallenge, settings: TestSettings): Promise<DailyChallengeAttempt> => {
+    await startTestAttempt(asTestAttempt(userId, challenge, settings), challenge.date);
+    const started = await loadDailyAttempt(userId, challenge.date);
+    if (!started) throw new Error("The daily challenge could not be started.");
+    return started;
+};
+
+/** Seconds taken on an attempt, capped at the time limit. */
+export const timeTaken = (attempt: DailyChallengeAttempt, now = Date.now()) =>
+    Math.min(DAILY_CHALLENGE_TIME_LIMIT_SECONDS, Math.max(0, Math.round((now - new Date(attempt.started_at).getTime()) / 1000)));
+
+/**
+ * Submits the answers of an attempt. The database grades them and records
+ * the score and the time taken; an attempt that was already submitted is
+ * rejected, so it is never counted twice.
+ */
+export const submitDailyChallenge = async (
+    attempt: DailyChallengeAttempt,
+    challenge: DailyChallenge,
+    settings: TestSettings,
+    answers: (string | null)[]
+): Promise<GradedTest> => {
+    if (!attempt.test_attempt_id) {
+        throw new Error("This attempt was started before daily challenges were graded by the server and can't be submitted.");
+    }
+    return submitTestAttempt({ ...asTestAttempt(attempt.user_id, challenge, settings), id: attempt.test_attempt_id }, { answers });
+};
+
+/** The day's completed attempts, ranked by score and then by time taken. */
+export const loadDailyLeaderboard = async (date: string, limit = DAILY_LEADERBOARD_SIZE): Promise<DailyChallengeEntry[]> => {
+    const { data, error } = await supabase
+        .from('daily_challenge_attempts')
+        .select('*, profiles (username, avatar_url)')
+        .eq('challenge_date', date)
+        .not('completed_at', 'is', null)
+        .order('score', { ascending: false })
+        .order('time_taken_seconds', { ascending: true })
+        .order('completed_at', { ascending: true })
+        .limit(limit);
+    if (error) throw error;
+    return data as unknown as DailyChallengeEntry[];
+};
+
+// Answers are kept locally until submission so a reload doesn't lose them.
+// The key includes the user, as several accounts can share a browser.
+const storageKey = (userId: string, date: string) => `aptiProDailyChallenge:${userId}:${date}`;
+
+export const saveDailyAnswersLocally = (userId: string, date: string, answers: (string | null)[]) => {
+    try {
+        localStorage.setItem(storageKey(userId, date), JSON.stringify(answers));
+    } catch (e) {
+        console.error("Failed to save daily challenge answers", e);
+    }
+};
+
+export const loadDailyAnswersLocally = (userId: string, date: string): (string | null)[] | null => {
+    try {
+        const saved = localStorage.getItem(storageKey(userId, date));
+        return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+        console.error("Failed to load daily challenge answers", e);
+        return null;
+    }
+};
+
+export const clearDailyAnswersLocally = (userId: string, date: string) => localStorage.removeItem(storageKey(userId, date));
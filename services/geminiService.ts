@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { Question, VoiceQuestion } from '../types';
+import { Question, VoiceQuestion, Difficulty, QuestionFormat } from '../types';
+import { validateQuestions, ValidationReport } from './questionValidation';
+import { getSubtopics } from './topics';
 
 const API_KEY = process.env.API_KEY;
 
@@ -12,13 +14,67 @@ const ai = new GoogleGenAI({ apiKey: API_KEY });
 const questionGenerationModel = 'gemini-2.5-flash';
 const mentorModel = 'gemini-2.5-flash';
 
-export const generateAptitudeQuestions = async (topic: string, count: number): Promise<Question[]> => {
-  if (!API_KEY) return Promise.resolve([]);
+// Extra requests made to replace generated questions that failed validation
+const MAX_TOP_UP_ATTEMPTS = 2;
+
+// Data Interpretation questions come with the chart or table they are about
+const DATA_INTERPRETATION_TOPIC = 'Data Interpretation';
+
+const dataSetSchema = {
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, enum: ['bar', 'line', 'pie', 'table'] },
+    title: { type: Type.STRING },
+    categories: { type: Type.ARRAY, items: { type: Type.STRING } },
+    series: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          values: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+        },
+        required: ["name", "values"]
+      }
+    },
+    unit: { type: Type.STRING }
+  },
+  required: ["kind", "title", "categories", "series"]
+};
+
+const passageSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    text: { type: Type.STRING }
+  },
+  required: ["title", "text"]
+};
+
+const requestAptitudeQuestions = async (topic: string, count: number, difficulty: Difficulty, avoid: Question[], format: QuestionFormat, subtopic?: string): Promise<unknown> => {
+    const avoidList = avoid.length > 0
+      ? ` Do not repeat any of these questions: ${avoid.map(q => `"${q.question}"`).join('; ')}.`
+      : '';
+    const withData = topic === DATA_INTERPRETATION_TOPIC;
+    const withPassage = format === 'passages';
+    const dataInstructions = withData
+      ? ' Group the questions into sets of 2 to 4 that share one data set: a bar, line or pie chart, or a table. Give every question in a set an identical dataSet with a title, the kind, the category labels, one or more named series with exactly one number per category, and a unit. Every answer must be computable from those numbers alone; do not restate the data in the question text.'
+      : '';
+    const passageInstructions = withPassage
+      ? ` Make them reading-comprehension questions: write ${Math.max(1, Math.round(count / 4))} original non-fiction passage(s) of 150 to 250 words, each followed by 3 to 5 questions (fewer only if ${count} is smaller). Give every question of a set the identical passage, with a title and the full text. Each question must be answerable from its passage alone: main idea, inference, vocabulary in context, tone or a specific detail.`
+      : '';
+
+    // Without a focus, each question is labelled with one of the topic's subtopics
+    const subtopicNames = subtopic ? [] : getSubtopics(topic).map(s => s.name);
+    const subject = subtopic ? `the "${subtopic}" subtopic of "${topic}"` : `"${topic}"`;
+    const subtopicInstructions = subtopicNames.length > 0
+      ? ' Cover a variety of subtopics and label each question with the one it tests.'
+      : '';
+    const typeInstructions = ' Most questions should be "single-choice": exactly 4 distinct options and the correct answer copied exactly from the options. Where it suits the topic, up to a quarter may instead be "numeric" (no options; correctAnswer is the number alone, with its unit in unit and a tolerance if the answer is rounded), "multi-select" (4 to 6 options; correctAnswers lists every correct option) or "ordering" (3 to 6 items, such as sentences to rearrange, as options in a scrambled order; correctAnswers lists them in the correct order).';
 
-  try {
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: questionGenerationModel,
-      contents: `Generate ${count} multiple-choice aptitude questions about "${topic}". For each question, provide a question text, 4 options, the correct answer, and a brief explanation.`,
+      contents: `Generate ${count} aptitude questions about ${subject} with ${difficulty} difficulty. For each question, provide a type, a question text, the answer and a brief explanation.${subtopicInstructions}${typeInstructions}${dataInstructions}${passageInstructions}${avoidList}`,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
@@ -26,24 +82,59 @@ export const generateAptitudeQuestions = async (topic: string, count: number): P
           items: {
             type: Type.OBJECT,
             properties: {
+              type: { type: Type.STRING, enum: ['single-choice', 'numeric', 'multi-select', 'ordering'] },
               question: { type: Type.STRING },
               options: { type: Type.ARRAY, items: { type: Type.STRING } },
               correctAnswer: { type: Type.STRING },
-              explanation: { type: Type.STRING }
+              correctAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+              tolerance: { type: Type.NUMBER },
+              unit: { type: Type.STRING },
+              explanation: { type: Type.STRING },
+              ...(subtopicNames.length > 0 ? { subtopic: { type: Type.STRING, enum: subtopicNames } } : {}),
+              ...(withData ? { dataSet: dataSetSchema } : {}),
+              ...(withPassage ? { passage: passageSchema } : {})
             },
-            required: ["question", "options", "correctAnswer", "explanation"]
+            required: [
+              "type", "question", "options", "correctAnswer", "explanation",
+              ...(withData ? ["dataSet"] : []),
+              ...(withPassage ? ["passage"] : [])
+            ]
           }
         }
       }
     });
 
     const jsonString = response.text.trim();
-    const questions = JSON.parse(jsonString);
-    return questions;
-  } catch (error) {
-    console.error("Error generating questions with Gemini:", error);
-    return [];
+    return JSON.parse(jsonString);
+};
+
+/**
+ * Generates `count` questions, validating every item and requesting more to
+ * replace the ones that were dropped. May return fewer than `count` questions
+ * if the model keeps producing invalid items.
+ */
+export const generateAptitudeQuestions = async (topic: string, count: number, difficulty: Difficulty = 'Medium', format: QuestionFormat = 'standalone', subtopic?: string): Promise<ValidationReport> => {
+  const batch: ValidationReport = { questions: [], dropped: 0, repaired: 0 };
+  if (!API_KEY) return batch;
+
+  for (let attempt = 0; attempt <= MAX_TOP_UP_ATTEMPTS && batch.questions.length < count; attempt++) {
+    try {
+      const items = await requestAptitudeQuestions(topic, count - batch.questions.length, difficulty, batch.questions, format, subtopic);
+      const report = validateQuestions(items, batch.questions);
+      const questions = subtopic ? report.questions.map(q => ({ ...q, subtopic })) : report.questions;
+      batch.questions.push(...questions.slice(0, count - batch.questions.length));
+      batch.dropped += report.dropped;
+      batch.repaired += report.repaired;
+    } catch (error) {
+      console.error("Error generating questions with Gemini:", error);
+      break;
+    }
+  }
+
+  if (batch.dropped > 0 || batch.repaired > 0) {
+    console.warn(`Question validation for "${topic}": dropped ${batch.dropped}, repaired ${batch.repaired}.`);
   }
+  return batch;
 };
 
 
@@ -73,12 +164,12 @@ export const getAIMentorResponse = async (prompt: string, history: { role: 'user
     }
 };
 
-export const generateVoiceTestQuestions = async (topic: string, difficulty: string, count: number): Promise<VoiceQuestion[]> => {
+export const generateVoiceTestQuestions = async (topic: string, difficulty: string, count: number, subtopic?: string): Promise<VoiceQuestion[]> => {
   if (!API_KEY) return Promise.resolve([]);
   try {
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: questionGenerationModel,
-      contents: `Generate ${count} aptitude questions for a voice test on the topic "${topic}" with ${difficulty} difficulty. The questions should be clear and concise. The answers should be simple, one-or-two-word answers that are easy to say.`,
+      contents: `Generate ${count} aptitude questions for a voice test on the topic "${topic}"${subtopic ? `, subtopic "${subtopic}",` : ''} with ${difficulty} difficulty. The questions should be clear and concise. The answers should be simple, one-or-two-word answers that are easy to say.`,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
@@ -0,0 +1,69 @@
+import { Difficulty, Question } from '../../types';
+import { RandomSource, shuffle } from '../random';
+import { OPTIONS_PER_QUESTION } from '../questionValidation';
+
+export type GeneratedQuestion = Omit<Question, 'id' | 'source'>;
+
+export interface QuestionGenerator {
+    id: string;
+    topic: string;
+    subtopic: string;
+    // Must compute the correct answer itself; never relies on a model. Returns
+    // several questions when they share one stimulus, such as a chart.
+    generate: (random: RandomSource, difficulty: Difficulty) => GeneratedQuestion | GeneratedQuestion[];
+}
+
+export const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+// Keeps at most two decimals and drops trailing zeros
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const formatNumber = (value: number) => round2(value).toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+export const formatCurrency = (value: number) => `₹${formatNumber(value)}`;
+
+/** Formats numerator/denominator as a whole or mixed number, e.g. "5 5/11". */
+export const formatFraction = (numerator: number, denominator: number) => {
+    const divisor = gcd(numerator, denominator);
+    const num = numerator / divisor;
+    const den = denominator / divisor;
+    if (den === 1) return `${num}`;
+    const whole = Math.floor(num / den);
+    const rest = num % den;
+    return whole > 0 ? `${whole} ${rest}/${den}` : `${rest}/${den}`;
+};
+
+/** Values a few steps either side of `value`, for numeric distractors. */
+export const nearby = (value: number, step: number) =>
+    [value + step, value - step, value + 2 * step, value - 2 * step, value + 3 * step].filter(v => v > 0);
+
+/**
+ * Builds shuffled options from the correct answer and distractor candidates,
+ * listed from most to least plausible. Candidates equal to the correct answer
+ * or to each other are skipped.
+ */
+export const buildOptions = (random: RandomSource, correctAnswer: string, candidates: string[]): string[] => {
+    const distractors: string[] = [];
+    for (const candidate of candidates) {
+        if (distractors.length === OPTIONS_PER_QUESTION - 1) break;
+        if (candidate !== correctAnswer && !distractors.includes(candidate)) {
+            distractors.push(candidate);
+        }
+    }
+    if (distractors.length < OPTIONS_PER_QUESTION - 1) {
+        throw new Error(`Not enough distinct distractors for "${correctAnswer}"`);
+    }
+    return shuffle([correctAnswer, ...distractors], random);
+};
+
+/**
+ * Calls `build` until it returns a question, for generators that throw away
+ * draws their own check cannot confirm (ambiguous or unsolvable puzzles).
+ */
+export const retryUntilVerified = <T,>(build: () => T | null, attempts = 200): T => {
+    for (let i = 0; i < attempts; i++) {
+        const result = build();
+        if (result) return result;
+    }
+    throw new Error('Could not build a question with a verified answer');
+};
@@ -0,0 +1,336 @@
+import { DataSet, DataSetKind, Difficulty } from '../../types';
+import { GeneratedQuestion, QuestionGenerator, buildOptions, formatCurrency, formatNumber, gcd, nearby, retryUntilVerified, round2 } from './common';
+import { RandomSource, pick, randomInt, shuffle } from '../random';
+import { dataSetId } from '../questionValidation';
+
+const TOPIC = 'Data Interpretation';
+
+interface ChartContext {
+    title: string;
+    // What the values measure, e.g. "sales"
+    metric: string;
+    // Singular noun for a category, e.g. "year"
+    category: string;
+    categories: string[];
+    seriesNames: string[];
+    unit: string;
+    range: [number, number];
+    step: number;
+}
+
+const CHART_CONTEXTS: ChartContext[] = [
+    { title: 'Sales of a company', metric: 'sales', category: 'year', categories: ['2020', '2021', '2022', '2023', '2024', '2025'], seriesNames: ['Product A', 'Product B', 'Product C'], unit: '₹ crore', range: [20, 120], step: 5 },
+    { title: 'Cars produced by a factory', metric: 'production', category: 'month', categories: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'], seriesNames: ['Hatchbacks', 'Sedans', 'SUVs'], unit: 'thousand units', range: [10, 80], step: 5 },
+    { title: 'Students enrolled in courses', metric: 'enrolment', category: 'course', categories: ['Physics', 'Chemistry', 'Biology', 'Maths', 'Economics', 'History'], seriesNames: ['2023', '2024', '2025'], unit: 'students', range: [40, 200], step: 10 },
+    { title: 'Monthly rainfall in a city', metric: 'rainfall', category: 'month', categories: ['Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov'], seriesNames: ['2024', '2025', '2026'], unit: 'mm', range: [50, 300], step: 10 },
+];
+
+interface PieContext {
+    title: string;
+    categories: string[];
+    totals: number[];
+    formatAmount: (value: number) => string;
+    amountQuestion: (category: string) => string;
+    moreQuestion: (larger: string, smaller: string) => string;
+}
+
+// Slice values are percentages in multiples of 5; totals keep every amount whole
+const PIE_CONTEXTS: PieContext[] = [
+    {
+        title: 'Monthly budget of a family',
+        categories: ['Food', 'Rent', 'Education', 'Transport', 'Savings', 'Others'],
+        totals: [40000, 50000, 60000, 80000, 100000],
+        formatAmount: formatCurrency,
+        amountQuestion: category => `How much does the family spend on ${category} each month?`,
+        moreQuestion: (larger, smaller) => `How much more does the family spend on ${larger} than on ${smaller} each month?`,
+    },
+    {
+        title: 'Employees of a company by department',
+        categories: ['HR', 'Sales', 'IT', 'Finance', 'Operations', 'Support'],
+        totals: [400, 600, 800, 1200, 2000],
+        formatAmount: value => `${formatNumber(value)} employees`,
+        amountQuestion: category => `How many employees work in ${category}?`,
+        moreQuestion: (larger, smaller) => `How many more employees work in ${larger} than in ${smaller}?`,
+    },
+];
+
+type ChartQuestionKind = 'total' | 'highest' | 'category-difference' | 'average' | 'percent-change' | 'ratio' | 'series-difference' | 'share-of-total' | 'series-ratio';
+type PieQuestionKind = 'pie-amount' | 'pie-angle' | 'pie-difference' | 'pie-ratio';
+
+const dataInterpretationParams: Record<Difficulty, { series: number; categories: number; setSize: number; questions: ChartQuestionKind[] }> = {
+    Easy: { series: 1, categories: 4, setSize: 2, questions: ['total', 'highest', 'category-difference'] },
+    Medium: { series: 2, categories: 5, setSize: 3, questions: ['average', 'percent-change', 'ratio', 'series-difference', 'highest'] },
+    Hard: { series: 3, categories: 6, setSize: 4, questions: ['percent-change', 'ratio', 'share-of-total', 'series-ratio', 'average'] },
+};
+
+const withUnit = (value: number, unit: string) => {
+    if (unit.startsWith('₹ ')) return `₹${formatNumber(value)} ${unit.slice(2)}`;
+    return `${formatNumber(value)} ${unit}`;
+};
+
+const formatRatio = (a: number, b: number) => {
+    const divisor = gcd(a, b);
+    return `${a / divisor} : ${b / divisor}`;
+};
+
+// Two different indices from 0..length-1, in ascending order
+const pickPair = (random: RandomSource, length: number): [number, number] => {
+    const [i, j] = shuffle(Array.from({ length }, (_, k) => k), random);
+    return i < j ? [i, j] : [j, i];
+};
+
+const buildChartQuestion = (random: RandomSource, kind: ChartQuestionKind, dataSet: DataSet, context: ChartContext): GeneratedQuestion | null => {
+    const { categories, series, unit } = dataSet;
+    const s = pick(random, series);
+    const subject = series.length > 1 ? `${context.metric} of ${s.name}` : context.metric;
+    const [i, j] = pickPair(random, categories.length);
+    const v = s.values;
+    const step = context.step;
+
+    switch (kind) {
+        case 'total': {
+            const total = v.reduce((sum, value) => sum + value, 0);
+            const correctAnswer = withUnit(total, unit);
+            return {
+                question: `What is the total ${subject} over all the ${context.category}s shown?`,
+                options: buildOptions(random, correctAnswer, nearby(total, step * 2).map(n => withUnit(n, unit))),
+                correctAnswer,
+                explanation: `Add the values: ${v.join(' + ')} = ${formatNumber(total)}.`,
+            };
+        }
+        case 'highest': {
+            const max = Math.max(...v);
+            if (v.filter(value => value === max).length > 1) return null;
+            const correctAnswer = categories[v.indexOf(max)];
+            return {
+                question: `In which ${context.category} was the ${subject} highest?`,
+                options: buildOptions(random, correctAnswer, shuffle(categories, random)),
+                correctAnswer,
+                explanation: `The highest value is ${max} ${unit}, in ${correctAnswer}.`,
+            };
+        }
+        case 'category-difference': {
+            if (v[i] === v[j]) return null;
+            const difference = Math.abs(v[j] - v[i]);
+            const [more, less] = v[j] > v[i] ? [j, i] : [i, j];
+            const correctAnswer = withUnit(difference, unit);
+            return {
+                question: `By how much did the ${subject} in ${categories[more]} exceed that in ${categories[less]}?`,
+                options: buildOptions(random, correctAnswer, [v[more] + v[less], ...nearby(difference, step)].map(n => withUnit(n, unit))),
+                correctAnswer,
+                explanation: `${categories[more]}: ${v[more]}, ${categories[less]}: ${v[less]}. The difference is ${v[more]} − ${v[less]} = ${difference}.`,
+            };
+        }
+        case 'average': {
+            const total = v.reduce((sum, value) => sum + value, 0);
+            const average = total / v.length;
+            const correctAnswer = withUnit(average, unit);
+            return {
+                question: `What is the average ${subject} per ${context.category}?`,
+                options: buildOptions(random, correctAnswer, [
+                    withUnit(total / (v.length - 1), unit),
+                    ...nearby(average, step).map(n => withUnit(n, unit)),
+                ]),
+                correctAnswer,
+                explanation: `Total = ${v.join(' + ')} = ${total}. Average = ${total} ÷ ${v.length} = ${formatNumber(average)}.`,
+            };
+        }
+        case 'percent-change': {
+            if (v[i] === v[j]) return null;
+            const change = (v[j] - v[i]) / v[i] * 100;
+            const direction = change > 0 ? 'increase' : 'decrease';
+            const correctAnswer = `${formatNumber(Math.abs(change))}%`;
+            return {
+                question: `What is the percentage ${direction} in ${subject} from ${categories[i]} to ${categories[j]}?`,
+                options: buildOptions(random, correctAnswer, [
+                    `${formatNumber(Math.abs(v[j] - v[i]) / v[j] * 100)}%`,
+                    `${formatNumber(Math.abs(v[j] - v[i]))}%`,
+                    ...nearby(round2(Math.abs(change)), 5).map(n => `${formatNumber(n)}%`),
+                ]),
+                correctAnswer,
+                explanation: `Change = ${v[j]} − ${v[i]} = ${v[j] - v[i]}. As a percentage of the starting value: ${Math.abs(v[j] - v[i])} ÷ ${v[i]} × 100 = ${correctAnswer} ${direction}.`,
+            };
+        }
+        case 'ratio': {
+            if (v[i] === v[j]) return null;
+            const correctAnswer = formatRatio(v[i], v[j]);
+            const [a, b] = correctAnswer.split(' : ').map(Number);
+            return {
+                question: `What is the ratio of the ${subject} in ${categories[i]} to that in ${categories[j]}?`,
+                options: buildOptions(random, correctAnswer, [`${b} : ${a}`, `${a + 1} : ${b}`, `${a} : ${b + 1}`, `${a + 1} : ${b + 1}`, `${a + 2} : ${b + 1}`]),
+                correctAnswer,
+                explanation: `${categories[i]}: ${v[i]}, ${categories[j]}: ${v[j]}. ${v[i]} : ${v[j]} simplifies to ${correctAnswer}.`,
+            };
+        }
+        case 'series-difference': {
+            if (series.length < 2) return null;
+            const [first, second] = shuffle(series, random);
+            const c = randomInt(random, 0, categories.length - 1);
+            if (first.values[c] === second.values[c]) return null;
+            const [more, less] = first.values[c] > second.values[c] ? [first, second] : [second, first];
+            const difference = more.values[c] - less.values[c];
+            const correctAnswer = withUnit(difference, unit);
+            return {
+                question: `In ${categories[c]}, by how much did the ${context.metric} of ${more.name} exceed that of ${less.name}?`,
+                options: buildOptions(random, correctAnswer, [more.values[c] + less.values[c], ...nearby(difference, step)].map(n => withUnit(n, unit))),
+                correctAnswer,
+                explanation: `In ${categories[c]}, ${more.name}: ${more.values[c]} and ${less.name}: ${less.values[c]}. The difference is ${difference}.`,
+            };
+        }
+        case 'share-of-total': {
+            if (series.length < 2) return null;
+            const c = randomInt(random, 0, categories.length - 1);
+            const total = series.reduce((sum, entry) => sum + entry.values[c], 0);
+            const share = s.values[c] / total * 100;
+            const correctAnswer = `${formatNumber(share)}%`;
+            return {
+                question: `In ${categories[c]}, what percentage of the total ${context.metric} came from ${s.name}?`,
+                options: buildOptions(random, correctAnswer, [
+                    `${formatNumber(100 / series.length)}%`,
+                    `${formatNumber(100 - share)}%`,
+                    ...nearby(round2(share), 3).map(n => `${formatNumber(n)}%`),
+                ]),
+                correctAnswer,
+                explanation: `Total in ${categories[c]} = ${series.map(entry => entry.values[c]).join(' + ')} = ${total}. Share of ${s.name} = ${s.values[c]} ÷ ${total} × 100 = ${correctAnswer}.`,
+            };
+        }
+        case 'series-ratio': {
+            if (series.length < 2) return null;
+            const [first, second] = shuffle(series, random);
+            const firstTotal = first.values.reduce((sum, value) => sum + value, 0);
+            const secondTotal = second.values.reduce((sum, value) => sum + value, 0);
+            if (firstTotal === secondTotal) return null;
+            const correctAnswer = formatRatio(firstTotal, secondTotal);
+            const [a, b] = correctAnswer.split(' : ').map(Number);
+            return {
+                question: `What is the ratio of the total ${context.metric} of ${first.name} to that of ${second.name} over all the ${context.category}s shown?`,
+                options: buildOptions(random, correctAnswer, [`${b} : ${a}`, `${a + 1} : ${b}`, `${a} : ${b + 1}`, `${a + 1} : ${b + 1}`, `${a + 2} : ${b + 1}`]),
+                correctAnswer,
+                explanation: `Total for ${first.name} = ${firstTotal} and for ${second.name} = ${secondTotal}. ${firstTotal} : ${secondTotal} simplifies to ${correctAnswer}.`,
+            };
+        }
+    }
+};
+
+const buildPieQuestion = (random: RandomSource, kind: PieQuestionKind, dataSet: DataSet, context: PieContext, total: number): GeneratedQuestion | null => {
+    const percents = dataSet.series[0].values;
+    const { categories } = dataSet;
+    const [i, j] = pickPair(random, categories.length);
+    const amount = (index: number) => total * percents[index] / 100;
+
+    switch (kind) {
+        case 'pie-amount': {
+            const correctAnswer = context.formatAmount(amount(i));
+            return {
+                question: context.amountQuestion(categories[i]),
+                options: buildOptions(random, correctAnswer, [
+                    context.formatAmount(total * (100 - percents[i]) / 100),
+                    ...nearby(amount(i), total / 20).map(context.formatAmount),
+                ]),
+                correctAnswer,
+                explanation: `${categories[i]} is ${percents[i]}% of the total: ${percents[i]}/100 × ${formatNumber(total)} = ${correctAnswer}.`,
+            };
+        }
+        case 'pie-angle': {
+            const angle = percents[i] * 3.6;
+            const correctAnswer = `${formatNumber(angle)}°`;
+            return {
+                question: `What is the central angle of the ${categories[i]} sector?`,
+                options: buildOptions(random, correctAnswer, [`${percents[i]}°`, ...nearby(angle, 18).map(n => `${formatNumber(n)}°`)]),
+                correctAnswer,
+                explanation: `A full circle is 360°, so each 1% is 3.6°. ${percents[i]} × 3.6 = ${correctAnswer}.`,
+            };
+        }
+        case 'pie-difference': {
+            if (percents[i] === percents[j]) return null;
+            const [more, less] = percents[i] > percents[j] ? [i, j] : [j, i];
+            const difference = amount(more) - amount(less);
+            const correctAnswer = context.formatAmount(difference);
+            return {
+                question: context.moreQuestion(categories[more], categories[less]),
+                options: buildOptions(random, correctAnswer, [
+                    context.formatAmount(amount(more) + amount(less)),
+                    ...nearby(difference, total / 20).map(context.formatAmount),
+                ]),
+                correctAnswer,
+                explanation: `The difference is ${percents[more]}% − ${percents[less]}% = ${percents[more] - percents[less]}% of ${formatNumber(total)}, which is ${correctAnswer}.`,
+            };
+        }
+        case 'pie-ratio': {
+            if (percents[i] === percents[j]) return null;
+            const correctAnswer = formatRatio(percents[i], percents[j]);
+            const [a, b] = correctAnswer.split(' : ').map(Number);
+            return {
+                question: `What is the ratio of ${categories[i]} to ${categories[j]}?`,
+                options: buildOptions(random, correctAnswer, [`${b} : ${a}`, `${a + 1} : ${b}`, `${a} : ${b + 1}`, `${a + 1} : ${b + 1}`, `${a + 2} : ${b + 1}`]),
+                correctAnswer,
+                explanation: `The ratio of the slices is ${percents[i]}% : ${percents[j]}%, which simplifies to ${correctAnswer}.`,
+            };
+        }
+    }
+};
+
+// Splits 100% into `parts` multiples of 5, each at least 5%
+const randomPercentages = (random: RandomSource, parts: number) => {
+    const units = Array(parts).fill(1);
+    for (let left = 20 - parts; left > 0; left--) units[randomInt(random, 0, parts - 1)]++;
+    return units.map(unit => unit * 5);
+};
+
+/** Builds one data set of the given kind and as many questions about it as the difficulty asks for. */
+const buildQuestionSet = (random: RandomSource, difficulty: Difficulty, kind: DataSetKind) => {
+    const params = dataInterpretationParams[difficulty];
+    let questions: (GeneratedQuestion | null)[];
+
+    if (kind === 'pie') {
+        const context = pick(random, PIE_CONTEXTS);
+        const total = pick(random, context.totals);
+        const categories = shuffle(context.categories, random).slice(0, params.categories - 1);
+        const content = {
+            kind,
+            title: `${context.title} (total ${context.formatAmount(total)})`,
+            categories,
+            series: [{ name: 'Share', values: randomPercentages(random, categories.length) }],
+            unit: '%',
+        };
+        const dataSet: DataSet = { id: dataSetId(content), ...content };
+        const kinds = shuffle<PieQuestionKind>(['pie-amount', 'pie-angle', 'pie-difference', 'pie-ratio'], random);
+        questions = kinds.slice(0, params.setSize).map(questionKind => buildPieQuestion(random, questionKind, dataSet, context, total));
+        questions = questions.map(q => q && { ...q, dataSet });
+    } else {
+        const context = pick(random, CHART_CONTEXTS);
+        const start = randomInt(random, 0, context.categories.length - params.categories);
+        const [low, high] = context.range;
+        const content = {
+            kind,
+            title: context.title,
+            categories: context.categories.slice(start, start + params.categories),
+            series: context.seriesNames.slice(0, params.series).map(name => ({
+                name: params.series > 1 ? name : context.metric.charAt(0).toUpperCase() + context.metric.slice(1),
+                values: Array.from({ length: params.categories }, () => randomInt(random, low / context.step, high / context.step) * context.step),
+            })),
+            unit: context.unit,
+        };
+        const dataSet: DataSet = { id: dataSetId(content), ...content };
+        questions = shuffle(params.questions, random).slice(0, params.setSize).map(questionKind => buildChartQuestion(random, questionKind, dataSet, context));
+        questions = questions.map(q => q && { ...q, dataSet });
+    }
+
+    // Every question in the set must be answerable; otherwise draw new data
+    return questions.every(q => q !== null) ? questions as GeneratedQuestion[] : null;
+};
+
+// One generator per chart kind, matching the Data Interpretation subtopics
+const chartSubtopics: Record<DataSetKind, string> = {
+    bar: 'Bar Graphs',
+    line: 'Line Graphs',
+    pie: 'Pie Charts',
+    table: 'Tables',
+};
+
+export const dataInterpretationGenerators: QuestionGenerator[] = (Object.keys(chartSubtopics) as DataSetKind[]).map(kind => ({
+    id: `data-interpretation-${kind}`,
+    topic: TOPIC,
+    subtopic: chartSubtopics[kind],
+    generate: (random, difficulty) => retryUntilVerified(() => buildQuestionSet(random, difficulty, kind)),
+}));
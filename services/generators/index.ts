@@ -0,0 +1,62 @@
+import { Difficulty, Question } from '../../types';
+import { createSeededRandom, shuffle } from '../random';
+import { GeneratedQuestion, QuestionGenerator } from './common';
+import { quantGenerators } from './quant';
+import { logicGenerators } from './logic';
+import { dataInterpretationGenerators } from './dataInterpretation';
+
+export type { QuestionGenerator } from './common';
+
+const generators: QuestionGenerator[] = [...quantGenerators, ...logicGenerators, ...dataInterpretationGenerators];
+
+// Failed or repeated draws allowed per requested question
+const MAX_ATTEMPTS_PER_QUESTION = 5;
+
+export const getGenerators = (topic: string, subtopic?: string) =>
+    generators.filter(generator => generator.topic === topic && (!subtopic || generator.subtopic === subtopic));
+
+export const hasGenerators = (topic: string, subtopic?: string) => getGenerators(topic, subtopic).length > 0;
+
+/**
+ * Generates `count` questions for a topic, or one of its subtopics, without
+ * any network access. The same seed, topic and difficulty always produce the
+ * same questions, and each question id records the generator and seed that
+ * produced it.
+ */
+export const generateProceduralQuestions = (
+    topic: string,
+    count: number,
+    difficulty: Difficulty,
+    seed: string | number = Date.now(),
+    exclude: Question[] = [],
+    subtopic?: string
+): Question[] => {
+    const available = getGenerators(topic, subtopic);
+    if (available.length === 0) return [];
+
+    // Cycle through the subtopics in a seeded order so a test covers several of them
+    const order = shuffle(available, createSeededRandom(`${seed}:order`));
+    const seen = new Set(exclude.map(q => q.question));
+    const questions: Question[] = [];
+
+    for (let draw = 0, failures = 0; questions.length < count && failures < count * MAX_ATTEMPTS_PER_QUESTION; draw++) {
+        const generator = order[draw % order.length];
+        const questionSeed = `${seed}:${draw}`;
+        let generated: GeneratedQuestion[];
+        try {
+            generated = [generator.generate(createSeededRandom(questionSeed), difficulty)].flat();
+        } catch (e) {
+            console.warn(`Generator ${generator.id} failed for seed ${questionSeed}:`, e);
+            failures++;
+            continue;
+        }
+        const fresh = generated.filter(q => !seen.has(q.question)).slice(0, count - questions.length);
+        if (fresh.length === 0) failures++;
+        fresh.forEach((q, i) => {
+            seen.add(q.question);
+            const id = generated.length > 1 ? `gen:${generator.id}:${questionSeed}:${i}` : `gen:${generator.id}:${questionSeed}`;
+            questions.push({ ...q, id, subtopic: generator.subtopic, difficulty, source: 'generated' });
+        });
+    }
+    return questions;
+};
@@ -0,0 +1,909 @@
+import { Difficulty } from '../../types';
+import { QuestionGenerator, buildOptions, retryUntilVerified } from './common';
+import { RandomSource, pick, randomInt, shuffle } from '../random';
+
+const TOPIC = 'Logical Reasoning';
+
+// ---------------------------------------------------------------------------
+// Number and letter series
+// ---------------------------------------------------------------------------
+
+const differences = (terms: number[]) => terms.slice(1).map((term, i) => term - terms[i]);
+const isConstant = (values: number[]) => values.every(value => value === values[0]);
+
+// Each rule returns the next term if it explains every shown term, otherwise null
+const seriesRules: ((terms: number[]) => number | null)[] = [
+    // Constant differences of order 1 to 3
+    ...[1, 2, 3].map(order => (terms: number[]) => {
+        const rows = [terms];
+        for (let i = 0; i < order; i++) rows.push(differences(rows[rows.length - 1]));
+        const constantRow = rows[order];
+        if (constantRow.length < 2 || !isConstant(constantRow)) return null;
+        let next = constantRow[0];
+        for (let i = order - 1; i >= 0; i--) next += rows[i][rows[i].length - 1];
+        return next;
+    }),
+    // Constant ratio
+    terms => {
+        if (terms.includes(0)) return null;
+        const ratio = terms[1] / terms[0];
+        return terms.every((term, i) => i === 0 || term === terms[i - 1] * ratio) ? terms[terms.length - 1] * ratio : null;
+    },
+    // Differences with a constant ratio
+    terms => {
+        const diffs = differences(terms);
+        if (diffs.length < 3 || diffs.includes(0)) return null;
+        const ratio = diffs[1] / diffs[0];
+        return diffs.every((diff, i) => i === 0 || diff === diffs[i - 1] * ratio) ? terms[terms.length - 1] + diffs[diffs.length - 1] * ratio : null;
+    },
+    // Multiply then add: next = m × term + c
+    ...[2, 3].map(multiplier => (terms: number[]) => {
+        const offset = terms[1] - multiplier * terms[0];
+        return terms.every((term, i) => i === 0 || term === multiplier * terms[i - 1] + offset) ? multiplier * terms[terms.length - 1] + offset : null;
+    }),
+    // Two interleaved arithmetic series
+    terms => {
+        if (terms.length < 6) return null;
+        const even = terms.filter((_, i) => i % 2 === 0);
+        const odd = terms.filter((_, i) => i % 2 === 1);
+        if (!isConstant(differences(even)) || !isConstant(differences(odd))) return null;
+        const series = terms.length % 2 === 0 ? even : odd;
+        return series[series.length - 1] + differences(series)[0];
+    },
+];
+
+/** Every next term that some known rule predicts; a fair series has exactly one. */
+const solveSeries = (terms: number[]): number[] => {
+    const predictions = new Set<number>();
+    seriesRules.forEach(rule => {
+        const next = rule(terms);
+        if (next !== null) predictions.add(next);
+    });
+    return [...predictions];
+};
+
+interface Series {
+    terms: number[];
+    explanation: string;
+}
+
+type NumberSeriesFamily = 'arithmetic' | 'geometric' | 'second-order' | 'double-plus' | 'squares' | 'cubes' | 'triple-plus' | 'doubling-differences' | 'interleaved';
+
+const numberSeriesParams: Record<Difficulty, { families: NumberSeriesFamily[]; shown: number }> = {
+    Easy: { families: ['arithmetic', 'geometric'], shown: 5 },
+    Medium: { families: ['second-order', 'double-plus', 'squares'], shown: 5 },
+    Hard: { families: ['cubes', 'triple-plus', 'doubling-differences', 'interleaved'], shown: 6 },
+};
+
+const buildNumberSeries = (random: RandomSource, family: NumberSeriesFamily, length: number): Series => {
+    const indices = Array.from({ length }, (_, i) => i);
+    switch (family) {
+        case 'arithmetic': {
+            const start = randomInt(random, 2, 30);
+            const step = randomInt(random, 2, 12);
+            return { terms: indices.map(i => start + i * step), explanation: `Each term is ${step} more than the previous one.` };
+        }
+        case 'geometric': {
+            const start = randomInt(random, 1, 5);
+            const ratio = pick(random, [2, 3]);
+            return { terms: indices.map(i => start * ratio ** i), explanation: `Each term is ${ratio} times the previous one.` };
+        }
+        case 'second-order': {
+            const start = randomInt(random, 1, 20);
+            const firstStep = randomInt(random, 1, 6);
+            const growth = randomInt(random, 1, 4);
+            const terms = [start];
+            for (let i = 1; i < length; i++) terms.push(terms[i - 1] + firstStep + (i - 1) * growth);
+            return { terms, explanation: `The differences between terms (${differences(terms).join(', ')}) increase by ${growth} each time.` };
+        }
+        case 'double-plus':
+        case 'triple-plus': {
+            const multiplier = family === 'double-plus' ? 2 : 3;
+            const offset = pick(random, multiplier === 2 ? [-1, 1, 2, 3] : [-2, -1, 1, 2]);
+            const terms = [randomInt(random, 2, 6)];
+            for (let i = 1; i < length; i++) terms.push(terms[i - 1] * multiplier + offset);
+            return { terms, explanation: `Each term is ${multiplier} times the previous one ${offset > 0 ? 'plus' : 'minus'} ${Math.abs(offset)}.` };
+        }
+        case 'squares':
+        case 'cubes': {
+            const power = family === 'squares' ? 2 : 3;
+            const base = randomInt(random, 1, 6);
+            const offset = pick(random, [-1, 0, 1, 2]);
+            const shift = offset === 0 ? '' : ` ${offset > 0 ? 'plus' : 'minus'} ${Math.abs(offset)}`;
+            return {
+                terms: indices.map(i => (base + i) ** power + offset),
+                explanation: `The terms are the ${family} of ${base}, ${base + 1}, ${base + 2}, …${shift}.`,
+            };
+        }
+        case 'doubling-differences': {
+            const start = randomInt(random, 1, 10);
+            const firstStep = randomInt(random, 1, 3);
+            const terms = [start];
+            for (let i = 1; i < length; i++) terms.push(terms[i - 1] + firstStep * 2 ** (i - 1));
+            return { terms, explanation: `The differences between terms (${differences(terms).join(', ')}) double each time.` };
+        }
+        case 'interleaved': {
+            const firstStart = randomInt(random, 1, 20);
+            const firstStep = randomInt(random, 2, 9);
+            const secondStart = randomInt(random, 30, 60);
+            const secondStep = -randomInt(random, 2, 6);
+            return {
+                terms: indices.map(i => i % 2 === 0 ? firstStart + (i / 2) * firstStep : secondStart + ((i - 1) / 2) * secondStep),
+                explanation: `Two series alternate: the 1st, 3rd, 5th… terms increase by ${firstStep}, and the 2nd, 4th, 6th… terms decrease by ${-secondStep}.`,
+            };
+        }
+    }
+};
+
+const numberSeries: QuestionGenerator = {
+    id: 'number-series',
+    topic: TOPIC,
+    subtopic: 'Number Series',
+    generate: (random, difficulty) => {
+        const { families, shown } = numberSeriesParams[difficulty];
+        return retryUntilVerified(() => {
+            const series = buildNumberSeries(random, pick(random, families), shown + 1);
+            const visible = series.terms.slice(0, shown);
+            const answer = series.terms[shown];
+            // The shown terms must point to this answer and nothing else
+            const solutions = solveSeries(visible);
+            if (solutions.length !== 1 || solutions[0] !== answer) return null;
+
+            const last = visible[shown - 1];
+            const correctAnswer = String(answer);
+            return {
+                question: `What comes next in the series: ${visible.join(', ')}, ?`,
+                options: buildOptions(random, correctAnswer, [
+                    String(last + (last - visible[shown - 2])),
+                    String(answer + 2),
+                    String(answer - 2),
+                    String(answer + 1),
+                    String(answer - 1),
+                    String(answer + 10),
+                ]),
+                correctAnswer,
+                explanation: `${series.explanation} So the next term is ${answer}.`,
+            };
+        });
+    },
+};
+
+const toLetter = (position: number) => String.fromCharCode(64 + position);
+
+const letterSeriesParams: Record<Difficulty, { kind: 'constant' | 'growing' | 'pairs'; shown: number }> = {
+    Easy: { kind: 'constant', shown: 5 },
+    Medium: { kind: 'growing', shown: 5 },
+    Hard: { kind: 'pairs', shown: 4 },
+};
+
+const letterSeries: QuestionGenerator = {
+    id: 'letter-series',
+    topic: TOPIC,
+    subtopic: 'Letter Series',
+    generate: (random, difficulty) => {
+        const { kind, shown } = letterSeriesParams[difficulty];
+        return retryUntilVerified(() => {
+            // Each group is a list of letter positions (1-26), one list per letter in the group
+            let components: number[][];
+            let explanation: string;
+            if (kind === 'pairs') {
+                const up = randomInt(random, 1, 3);
+                const down = randomInt(random, 1, 3);
+                const first = randomInt(random, 1, 26 - up * shown);
+                const second = randomInt(random, down * shown + 1, 26);
+                components = [
+                    Array.from({ length: shown + 1 }, (_, i) => first + i * up),
+                    Array.from({ length: shown + 1 }, (_, i) => second - i * down),
+                ];
+                explanation = `The first letters move ${up} place${up > 1 ? 's' : ''} forward and the second letters move ${down} place${down > 1 ? 's' : ''} back in the alphabet.`;
+            } else if (kind === 'growing') {
+                const firstStep = randomInt(random, 1, 2);
+                const start = randomInt(random, 1, 26 - (firstStep * shown + (shown * (shown - 1)) / 2));
+                const positions = [start];
+                for (let i = 1; i <= shown; i++) positions.push(positions[i - 1] + firstStep + i - 1);
+                components = [positions];
+                explanation = `The gaps between letters grow by one each time (${differences(positions.slice(0, shown)).map(gap => `+${gap}`).join(', ')}).`;
+            } else {
+                const step = randomInt(random, 1, 4);
+                const start = randomInt(random, 1, 26 - step * shown);
+                components = [Array.from({ length: shown + 1 }, (_, i) => start + i * step)];
+                explanation = `Each letter is ${step} place${step > 1 ? 's' : ''} after the previous one in the alphabet.`;
+            }
+
+            // Every component must have a single, in-range continuation
+            const verified = components.every(positions => {
+                const solutions = solveSeries(positions.slice(0, shown));
+                return solutions.length === 1 && solutions[0] === positions[shown] && positions[shown] >= 1 && positions[shown] <= 26;
+            });
+            if (!verified) return null;
+
+            const group = (i: number, shifts: number[] = []) =>
+                components.map((positions, c) => toLetter(((positions[i] + (shifts[c] ?? 0) - 1 + 26) % 26) + 1)).join('');
+            const visible = Array.from({ length: shown }, (_, i) => group(i));
+            const correctAnswer = group(shown);
+            const candidates = components.length === 1
+                ? [[1], [-1], [2], [-2]]
+                : [[1, 0], [0, -1], [-1, 1], [0, 1], [2, 0]];
+            return {
+                question: `What comes next in the series: ${visible.join(', ')}, ?`,
+                options: buildOptions(random, correctAnswer, candidates.map(shifts => group(shown, shifts))),
+                correctAnswer,
+                explanation: `${explanation} So the next term is ${correctAnswer}.`,
+            };
+        });
+    },
+};
+
+// ---------------------------------------------------------------------------
+// Coding-decoding
+// ---------------------------------------------------------------------------
+
+interface CodeRule {
+    shift: number;
+    // Extra shift per position: the nth letter moves shift + n × positional places
+    positional: -1 | 0 | 1;
+    reversed: boolean;
+}
+
+const CODE_WORDS = ['COMPUTER', 'MOUSE', 'PLANT', 'GARDEN', 'BRIDGE', 'MARKET', 'SILVER', 'WINTER', 'PENCIL', 'ORANGE', 'DOCTOR', 'FOREST', 'TIGER', 'CANDLE', 'RIVER', 'SCHOOL', 'BOTTLE', 'WINDOW'];
+
+const encode = (word: string, rule: CodeRule) => {
+    const letters = word.split('').map((letter, i) => {
+        const moved = letter.charCodeAt(0) - 65 + rule.shift + rule.positional * (i + 1);
+        return String.fromCharCode(65 + ((moved % 26) + 26) % 26);
+    });
+    return (rule.reversed ? letters.reverse() : letters).join('');
+};
+
+// Every rule of the supported shapes, for brute-force decoding
+const ALL_CODE_RULES: CodeRule[] = Array.from({ length: 26 }, (_, shift) => shift).flatMap(shift =>
+    ([-1, 0, 1] as const).flatMap(positional => [false, true].map(reversed => ({ shift, positional, reversed })))
+);
+
+const codingParams: Record<Difficulty, { shifts: number[]; positional: CodeRule['positional'][]; reversals: boolean[] }> = {
+    Easy: { shifts: [1, -1, 2, -2], positional: [0], reversals: [false] },
+    Medium: { shifts: [1, -1, 2, -2, 3, -3], positional: [0], reversals: [false, true] },
+    Hard: { shifts: [0, 1, -1], positional: [1, -1], reversals: [false, true] },
+};
+
+const describeCodeRule = (rule: CodeRule) => {
+    const places = (n: number) => `${Math.abs(n)} place${Math.abs(n) === 1 ? '' : 's'} ${n >= 0 ? 'forward' : 'back'}`;
+    const movement = rule.positional === 0
+        ? `each letter moves ${places(rule.shift)} in the alphabet`
+        : `the 1st letter moves ${places(rule.shift + rule.positional)}, the 2nd ${places(rule.shift + 2 * rule.positional)}, and so on`;
+    return rule.reversed ? `${movement}, and the result is written in reverse order` : movement;
+};
+
+const codingDecoding: QuestionGenerator = {
+    id: 'coding-decoding',
+    topic: TOPIC,
+    subtopic: 'Coding-Decoding',
+    generate: (random, difficulty) => {
+        const params = codingParams[difficulty];
+        return retryUntilVerified(() => {
+            const rule: CodeRule = { shift: pick(random, params.shifts), positional: pick(random, params.positional), reversed: pick(random, params.reversals) };
+            const [example, target] = shuffle(CODE_WORDS, random);
+            const exampleCode = encode(example, rule);
+            const correctAnswer = encode(target, rule);
+            if (correctAnswer === target) return null;
+
+            // Decode the example by brute force: every matching rule must code the target the same way
+            const matching = ALL_CODE_RULES.filter(candidate => encode(example, candidate) === exampleCode);
+            if (new Set(matching.map(candidate => encode(target, candidate))).size !== 1) return null;
+
+            const variants: CodeRule[] = [
+                { ...rule, reversed: !rule.reversed },
+                { ...rule, shift: rule.shift + 1 },
+                { ...rule, shift: rule.shift - 1 },
+                { ...rule, positional: rule.positional === 0 ? 1 : 0 },
+            ];
+            return {
+                question: `In a certain code language, ${example} is written as ${exampleCode}. How is ${target} written in that code?`,
+                options: buildOptions(random, correctAnswer, [
+                    ...variants.map(variant => encode(target, variant)),
+                    correctAnswer.split('').reverse().join(''),
+                ]),
+                correctAnswer,
+                explanation: `Comparing ${example} with ${exampleCode}, ${describeCodeRule(rule)}. Applying the same rule to ${target} gives ${correctAnswer}.`,
+            };
+        });
+    },
+};
+
+// ---------------------------------------------------------------------------
+// Blood relations
+// ---------------------------------------------------------------------------
+
+type Gender = 'male' | 'female';
+type KinLink = 'parent' | 'child' | 'spouse' | 'sibling';
+
+// "subject is the <link> of object"
+interface KinFact {
+    subject: string;
+    link: KinLink;
+    object: string;
+}
+
+interface Kinship {
+    gender: Map<string, Gender>;
+    parents: Map<string, Set<string>>;
+    spouse: Map<string, string>;
+    siblings: Map<string, Set<string>>;
+}
+
+const setFor = <K, V>(map: Map<K, Set<V>>, key: K) => {
+    if (!map.has(key)) map.set(key, new Set());
+    return map.get(key)!;
+};
+
+/**
+ * Builds the family implied by a list of facts: siblings share parents, and
+ * the spouse of a parent is also a parent.
+ */
+const buildKinship = (facts: KinFact[], gender: Map<string, Gender>): Kinship => {
+    const kinship: Kinship = { gender, parents: new Map(), spouse: new Map(), siblings: new Map() };
+    facts.forEach(({ subject, link, object }) => {
+        if (link === 'parent') setFor(kinship.parents, object).add(subject);
+        if (link === 'child') setFor(kinship.parents, subject).add(object);
+        if (link === 'spouse') {
+            kinship.spouse.set(subject, object);
+            kinship.spouse.set(object, subject);
+        }
+        if (link === 'sibling') {
+            setFor(kinship.siblings, subject).add(object);
+            setFor(kinship.siblings, object).add(subject);
+        }
+    });
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        const add = <V,>(set: Set<V>, value: V) => {
+            if (!set.has(value)) {
+                set.add(value);
+                changed = true;
+            }
+        };
+        const children = [...kinship.parents.keys()];
+        children.forEach(child => {
+            const parents = setFor(kinship.parents, child);
+            [...parents].forEach(parent => {
+                const partner = kinship.spouse.get(parent);
+                if (partner) add(parents, partner);
+            });
+            children.forEach(other => {
+                if (other !== child && [...parents].some(parent => kinship.parents.get(other)?.has(parent))) {
+                    add(setFor(kinship.siblings, child), other);
+                }
+            });
+        });
+        [...kinship.siblings.entries()].forEach(([person, siblings]) => {
+            [...siblings].forEach(sibling => {
+                kinship.siblings.get(sibling)?.forEach(other => {
+                    if (other !== person) add(siblings, other);
+                });
+                kinship.parents.get(sibling)?.forEach(parent => add(setFor(kinship.parents, person), parent));
+            });
+        });
+    }
+    return kinship;
+};
+
+const RELATION_TERMS: Record<string, Record<Gender, string>> = {
+    parent: { male: 'Father', female: 'Mother' },
+    child: { male: 'Son', female: 'Daughter' },
+    sibling: { male: 'Brother', female: 'Sister' },
+    spouse: { male: 'Husband', female: 'Wife' },
+    grandparent: { male: 'Grandfather', female: 'Grandmother' },
+    grandchild: { male: 'Grandson', female: 'Granddaughter' },
+    'parent-sibling': { male: 'Uncle', female: 'Aunt' },
+    'sibling-child': { male: 'Nephew', female: 'Niece' },
+    cousin: { male: 'Cousin', female: 'Cousin' },
+    'parent-in-law': { male: 'Father-in-law', female: 'Mother-in-law' },
+    'child-in-law': { male: 'Son-in-law', female: 'Daughter-in-law' },
+    'sibling-in-law': { male: 'Brother-in-law', female: 'Sister-in-law' },
+};
+
+/** Every relation term that describes x with respect to y in the given family. */
+const relationTerms = (kinship: Kinship, x: string, y: string): string[] => {
+    const gender = kinship.gender.get(x);
+    if (!gender || x === y) return [];
+    const isParent = (p: string, c: string) => kinship.parents.get(c)?.has(p) ?? false;
+    const isSibling = (a: string, b: string) => a !== b && (kinship.siblings.get(a)?.has(b) ?? false);
+    const parentsOf = (c: string) => [...(kinship.parents.get(c) ?? [])];
+    const childrenOf = (p: string) => [...kinship.parents.keys()].filter(c => isParent(p, c));
+    const spouseOf = (a: string) => kinship.spouse.get(a);
+    const isUncle = (a: string, b: string) => parentsOf(b).some(parent => {
+        const partner = spouseOf(a);
+        return isSibling(a, parent) || (!!partner && isSibling(partner, parent));
+    });
+
+    const holds: Record<string, boolean> = {
+        parent: isParent(x, y),
+        child: isParent(y, x),
+        sibling: isSibling(x, y),
+        spouse: spouseOf(x) === y,
+        grandparent: childrenOf(x).some(c => isParent(c, y)),
+        grandchild: childrenOf(y).some(c => isParent(c, x)),
+        'parent-sibling': isUncle(x, y),
+        'sibling-child': isUncle(y, x),
+        cousin: parentsOf(x).some(p => parentsOf(y).some(q => isSibling(p, q))),
+        'parent-in-law': !!spouseOf(y) && isParent(x, spouseOf(y)!),
+        'child-in-law': !!spouseOf(x) && isParent(y, spouseOf(x)!),
+        'sibling-in-law': (!!spouseOf(y) && isSibling(x, spouseOf(y)!)) || (!!spouseOf(x) && isSibling(spouseOf(x)!, y)),
+    };
+    return Object.keys(holds).filter(key => holds[key]).map(key => RELATION_TERMS[key][gender]);
+};
+
+const bloodRelationParams: Record<Difficulty, { hops: number[]; extraFacts: number; secondCouple: boolean }> = {
+    Easy: { hops: [2], extraFacts: 0, secondCouple: false },
+    Medium: { hops: [3], extraFacts: 0, secondCouple: true },
+    Hard: { hops: [3, 4], extraFacts: 2, secondCouple: true },
+};
+
+const LINK_TERMS: Record<KinLink, Record<Gender, string>> = {
+    parent: RELATION_TERMS.parent,
+    child: RELATION_TERMS.child,
+    spouse: RELATION_TERMS.spouse,
+    sibling: RELATION_TERMS.sibling,
+};
+
+const bloodRelations: QuestionGenerator = {
+    id: 'blood-relations',
+    topic: TOPIC,
+    subtopic: 'Blood Relations',
+    generate: (random, difficulty) => {
+        const params = bloodRelationParams[difficulty];
+        return retryUntilVerified(() => {
+            // A three-generation family with letters for names
+            const names = shuffle(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J', 'K', 'L', 'M'], random);
+            const gender = new Map<string, Gender>();
+            const facts: KinFact[] = [];
+            const person = (g: Gender = random() < 0.5 ? 'male' : 'female') => {
+                const name = names.shift()!;
+                gender.set(name, g);
+                return name;
+            };
+            const couple = (first: string) => {
+                const partner = person(gender.get(first) === 'male' ? 'female' : 'male');
+                facts.push({ subject: first, link: 'spouse', object: partner });
+                return partner;
+            };
+            const addChildren = (parentA: string, parentB: string, count: number) =>
+                Array.from({ length: count }, () => {
+                    const child = person();
+                    facts.push({ subject: parentA, link: 'parent', object: child }, { subject: parentB, link: 'parent', object: child });
+                    return child;
+                });
+
+            const grandfather = person('male');
+            const grandmother = couple(grandfather);
+            const children = addChildren(grandfather, grandmother, randomInt(random, 2, 3));
+            addChildren(children[0], couple(children[0]), randomInt(random, 1, 2));
+            if (params.secondCouple) addChildren(children[1], couple(children[1]), 1);
+
+            const family = buildKinship(facts, gender);
+            const people = [...gender.keys()];
+
+            // Direct links between people, as statements "a is the <link> of b"
+            const linksFrom = (a: string): KinFact[] => people.flatMap(b => {
+                const links: KinFact[] = [];
+                if (family.parents.get(b)?.has(a)) links.push({ subject: a, link: 'parent', object: b });
+                if (family.parents.get(a)?.has(b)) links.push({ subject: a, link: 'child', object: b });
+                if (family.spouse.get(a) === b) links.push({ subject: a, link: 'spouse', object: b });
+                if (family.siblings.get(a)?.has(b)) links.push({ subject: a, link: 'sibling', object: b });
+                return links;
+            });
+
+            // Shortest chains of statements between every pair of people
+            const candidates: { chain: KinFact[]; answer: string }[] = [];
+            people.forEach(start => {
+                const chains = new Map<string, KinFact[]>([[start, []]]);
+                const queue = [start];
+                while (queue.length) {
+                    const current = queue.shift()!;
+                    shuffle(linksFrom(current), random).forEach(fact => {
+                        if (!chains.has(fact.object)) {
+                            chains.set(fact.object, [...chains.get(current)!, fact]);
+                            queue.push(fact.object);
+                        }
+                    });
+                }
+                chains.forEach((chain, end) => {
+                    if (!params.hops.includes(chain.length)) return;
+                    const terms = relationTerms(family, start, end);
+                    if (terms.length === 1) candidates.push({ chain, answer: terms[0] });
+                });
+            });
+            if (candidates.length === 0) return null;
+
+            const { chain, answer } = pick(random, candidates);
+            const x = chain[0].subject;
+            const y = chain[chain.length - 1].object;
+            const extras = shuffle(people.flatMap(linksFrom), random)
+                .filter(fact => !chain.some(link => link.subject === fact.subject && link.object === fact.object))
+                .slice(0, params.extraFacts);
+            const statements = params.extraFacts > 0 ? shuffle([...chain, ...extras], random) : chain;
+
+            // Re-derive the relation from the statements alone; it must match the family
+            const told = new Map(statements.map(fact => [fact.subject, gender.get(fact.subject)!] as const));
+            const derived = relationTerms(buildKinship(statements, told), x, y);
+            if (derived.length !== 1 || derived[0] !== answer) return null;
+
+            const sentence = (fact: KinFact) => `${fact.subject} is the ${LINK_TERMS[fact.link][gender.get(fact.subject)!].toLowerCase()} of ${fact.object}`;
+            const pool = Object.values(RELATION_TERMS).map(terms => terms[gender.get(x)!]);
+            return {
+                question: `${statements.map(fact => `${sentence(fact)}.`).join(' ')} How is ${x} related to ${y}?`,
+                options: buildOptions(random, answer, shuffle(pool, random)),
+                correctAnswer: answer,
+                explanation: `${chain.map(sentence).join(', and ')}. So ${x} is the ${answer.toLowerCase()} of ${y}.${extras.length ? ' The other statements are not needed.' : ''}`,
+            };
+        });
+    },
+};
+
+// ---------------------------------------------------------------------------
+// Seating arrangement
+// ---------------------------------------------------------------------------
+
+type SeatClueKind = 'left-of' | 'second-right' | 'gap' | 'end' | 'not-end' | 'between' | 'not-next-to';
+type SeatQuestionKind = 'extreme-left' | 'extreme-right' | 'middle' | 'right-of' | 'second-left' | 'count-between';
+
+interface SeatClue {
+    text: string;
+    holds: (position: Record<string, number>) => boolean;
+}
+
+const SEATING_NAMES = ['Aman', 'Bina', 'Chirag', 'Deepa', 'Esha', 'Farhan', 'Gita', 'Harsh'];
+const NUMBER_WORDS: Record<number, string> = { 4: 'Four', 5: 'Five', 6: 'Six' };
+
+const seatingParams: Record<Difficulty, { people: number; clues: SeatClueKind[]; questions: SeatQuestionKind[] }> = {
+    Easy: { people: 4, clues: ['left-of', 'end', 'gap'], questions: ['extreme-left', 'extreme-right'] },
+    Medium: { people: 5, clues: ['left-of', 'second-right', 'gap', 'end', 'between'], questions: ['middle', 'right-of', 'second-left', 'count-between'] },
+    Hard: { people: 6, clues: ['left-of', 'second-right', 'gap', 'end', 'not-end', 'between', 'not-next-to'], questions: ['extreme-right', 'right-of', 'second-left', 'count-between'] },
+};
+
+const permutations = <T,>(items: T[]): T[][] =>
+    items.length <= 1 ? [items] : items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+
+// Every true clue of the allowed kinds about a left-to-right arrangement
+const seatingClues = (row: string[], kinds: SeatClueKind[]): SeatClue[] => {
+    const last = row.length - 1;
+    const seat = Object.fromEntries(row.map((name, i) => [name, i]));
+    const clues: SeatClue[] = [];
+    row.forEach(x => row.forEach(y => {
+        if (x === y) return;
+        const [px, py] = [seat[x], seat[y]];
+        if (kinds.includes('left-of') && px === py - 1) {
+            clues.push({ text: `${x} sits immediately to the left of ${y}.`, holds: p => p[x] === p[y] - 1 });
+        }
+        if (kinds.includes('second-right') && px === py + 2) {
+            clues.push({ text: `${x} sits second to the right of ${y}.`, holds: p => p[x] === p[y] + 2 });
+        }
+        const gap = Math.abs(px - py) - 1;
+        if (kinds.includes('gap') && x < y && (gap === 1 || gap === 2)) {
+            clues.push({ text: `Exactly ${gap === 1 ? 'one person sits' : 'two people sit'} between ${x} and ${y}.`, holds: p => Math.abs(p[x] - p[y]) - 1 === gap });
+        }
+        if (kinds.includes('not-next-to') && x < y && gap > 0) {
+            clues.push({ text: `${x} does not sit next to ${y}.`, holds: p => Math.abs(p[x] - p[y]) > 1 });
+        }
+    }));
+    row.forEach((x, i) => {
+        const atEnd = i === 0 || i === last;
+        if (kinds.includes('end') && atEnd) clues.push({ text: `${x} sits at one of the ends.`, holds: p => p[x] === 0 || p[x] === last });
+        if (kinds.includes('not-end') && !atEnd) clues.push({ text: `${x} does not sit at either end.`, holds: p => p[x] !== 0 && p[x] !== last });
+        if (kinds.includes('between') && !atEnd) {
+            const [y, z] = [row[i - 1], row[i + 1]].sort();
+            clues.push({ text: `${x} sits between ${y} and ${z}.`, holds: p => Math.abs(p[y] - p[x]) === 1 && Math.abs(p[z] - p[x]) === 1 });
+        }
+    });
+    return clues;
+};
+
+const seatingArrangement: QuestionGenerator = {
+    id: 'seating-arrangement',
+    topic: TOPIC,
+    subtopic: 'Seating Arrangement',
+    generate: (random, difficulty) => {
+        const params = seatingParams[difficulty];
+        return retryUntilVerified(() => {
+            const names = shuffle(SEATING_NAMES, random).slice(0, params.people).sort();
+            const row = shuffle(names, random);
+            const arrangements = permutations(names).map(order => Object.fromEntries(order.map((name, i) => [name, i])));
+            const solutions = (clues: SeatClue[]) => arrangements.filter(position => clues.every(clue => clue.holds(position)));
+
+            // Add clues until only one arrangement fits, then drop any that are not needed
+            const clues: SeatClue[] = [];
+            for (const clue of shuffle(seatingClues(row, params.clues), random)) {
+                if (solutions(clues).length === 1) break;
+                clues.push(clue);
+            }
+            const fitting = solutions(clues);
+            if (fitting.length !== 1) return null;
+            for (let i = clues.length - 1; i >= 0; i--) {
+                const without = clues.filter((_, j) => j !== i);
+                if (solutions(without).length === 1) clues.splice(i, 1);
+            }
+
+            // The brute-force solution is what the question is answered from
+            const solved = Object.entries(fitting[0]).sort((a, b) => a[1] - b[1]).map(([name]) => name);
+            if (solved.join() !== row.join()) return null;
+            const last = solved.length - 1;
+            const kind = pick(random, params.questions.filter(q => q !== 'middle' || solved.length % 2 === 1));
+            const anchor = pick(random, solved);
+            const at = solved.indexOf(anchor);
+
+            let questionText: string;
+            let correctAnswer: string;
+            let candidates = shuffle(names, random);
+            switch (kind) {
+                case 'extreme-left':
+                    questionText = 'Who sits at the extreme left end?';
+                    correctAnswer = solved[0];
+                    break;
+                case 'extreme-right':
+                    questionText = 'Who sits at the extreme right end?';
+                    correctAnswer = solved[last];
+                    break;
+                case 'middle':
+                    questionText = 'Who sits in the middle of the row?';
+                    correctAnswer = solved[last / 2];
+                    break;
+                case 'right-of':
+                    if (at === last) return null;
+                    questionText = `Who sits immediately to the right of ${anchor}?`;
+                    correctAnswer = solved[at + 1];
+                    candidates = candidates.filter(name => name !== anchor);
+                    break;
+                case 'second-left':
+                    if (at < 2) return null;
+                    questionText = `Who sits second to the left of ${anchor}?`;
+                    correctAnswer = solved[at - 2];
+                    candidates = candidates.filter(name => name !== anchor);
+                    break;
+                case 'count-between': {
+                    const other = pick(random, solved.filter(name => name !== anchor));
+                    questionText = `How many people sit between ${anchor} and ${other}?`;
+                    correctAnswer = String(Math.abs(solved.indexOf(other) - at) - 1);
+                    candidates = Array.from({ length: solved.length - 1 }, (_, i) => String(i));
+                    break;
+                }
+            }
+            // Skip questions a clue already answers word for word
+            if (kind === 'right-of' && clues.some(clue => clue.text === `${anchor} sits immediately to the left of ${correctAnswer}.`)) return null;
+
+            return {
+                question: `${NUMBER_WORDS[names.length]} friends, ${names.slice(0, -1).join(', ')} and ${names[last]}, sit in a row facing north. ${clues.map(clue => clue.text).join(' ')} ${questionText}`,
+                options: buildOptions(random, correctAnswer, candidates),
+                correctAnswer,
+                explanation: `The only arrangement (from left to right) that satisfies every clue is ${solved.join(', ')}. So the answer is ${correctAnswer}.`,
+            };
+        });
+    },
+};
+
+// ---------------------------------------------------------------------------
+// Syllogisms
+// ---------------------------------------------------------------------------
+
+type Quantifier = 'all' | 'no' | 'some' | 'some-not';
+
+interface Proposition {
+    quantifier: Quantifier;
+    subject: number;
+    predicate: number;
+}
+
+const SYLLOGISM_NOUNS: [string, string][] = [
+    ['pen', 'pens'], ['book', 'books'], ['cat', 'cats'], ['dog', 'dogs'], ['car', 'cars'], ['tree', 'trees'],
+    ['flower', 'flowers'], ['chair', 'chairs'], ['table', 'tables'], ['ring', 'rings'], ['bottle', 'bottles'],
+    ['lamp', 'lamps'], ['star', 'stars'], ['box', 'boxes'], ['bird', 'birds'], ['shirt', 'shirts'],
+];
+
+const negate = (proposition: Proposition): Proposition => ({
+    ...proposition,
+    quantifier: ({ all: 'some-not', 'some-not': 'all', no: 'some', some: 'no' } as const)[proposition.quantifier],
+});
+
+// A "world" marks which regions of the Venn diagram are non-empty. Region r
+// holds the things that belong to exactly the terms whose bits are set in r.
+const worldMasks = (proposition: Proposition, terms: number) => {
+    let forbidden = 0;
+    let required = 0;
+    for (let region = 1; region < 1 << terms; region++) {
+        const inSubject = (region >> proposition.subject) & 1;
+        const inPredicate = (region >> proposition.predicate) & 1;
+        const bit = 2 ** region;
+        if (!inSubject) continue;
+        if (proposition.quantifier === 'all' && !inPredicate) forbidden += bit;
+        if (proposition.quantifier === 'no' && inPredicate) forbidden += bit;
+        if (proposition.quantifier === 'some' && inPredicate) required += bit;
+        if (proposition.quantifier === 'some-not' && !inPredicate) required += bit;
+    }
+    return { forbidden, required };
+};
+
+const holdsIn = (world: number, masks: { forbidden: number; required: number }) =>
+    (world & masks.forbidden) === 0 && (masks.required === 0 || (world & masks.required) !== 0);
+
+// Every world in which each term has at least one member
+const worldCache = new Map<number, number[]>();
+const possibleWorlds = (terms: number) => {
+    if (!worldCache.has(terms)) {
+        const nonEmpty = Array.from({ length: terms }, (_, term) => worldMasks({ quantifier: 'some', subject: term, predicate: term }, terms));
+        const worlds: number[] = [];
+        for (let world = 0; world < 2 ** (1 << terms); world += 2) {
+            if (nonEmpty.every(masks => holdsIn(world, masks))) worlds.push(world);
+        }
+        worldCache.set(terms, worlds);
+    }
+    return worldCache.get(terms)!;
+};
+
+const syllogismParams: Record<Difficulty, { terms: number; quantifiers: Quantifier[] }> = {
+    Easy: { terms: 3, quantifiers: ['all', 'no', 'some'] },
+    Medium: { terms: 3, quantifiers: ['all', 'no', 'some', 'some-not'] },
+    Hard: { terms: 4, quantifiers: ['all', 'no', 'some', 'some-not'] },
+};
+
+const SYLLOGISM_ANSWERS = ['Only conclusion I follows', 'Only conclusion II follows', 'Both I and II follow', 'Neither I nor II follows'];
+
+const syllogisms: QuestionGenerator = {
+    id: 'syllogisms',
+    topic: TOPIC,
+    subtopic: 'Syllogisms',
+    generate: (random, difficulty) => {
+        const params = syllogismParams[difficulty];
+        // Aim for an even spread of answers across questions
+        const target = pick(random, SYLLOGISM_ANSWERS);
+        const nouns = shuffle(SYLLOGISM_NOUNS, random).slice(0, params.terms);
+        const state = (p: Proposition) => {
+            const [subject, subjects] = nouns[p.subject];
+            const [predicate, predicates] = nouns[p.predicate];
+            switch (p.quantifier) {
+                case 'all': return `All ${subjects} are ${predicates}.`;
+                case 'no': return `No ${subject} is a ${predicate}.`;
+                case 'some': return `Some ${subjects} are ${predicates}.`;
+                case 'some-not': return `Some ${subjects} are not ${predicates}.`;
+            }
+        };
+
+        const attempt = (requireTarget: boolean) => () => {
+            // Premises chain the terms together: 0-1, 1-2 (and 2-3)
+            const premises: Proposition[] = Array.from({ length: params.terms - 1 }, (_, i) => {
+                const [subject, predicate] = random() < 0.5 ? [i, i + 1] : [i + 1, i];
+                return { quantifier: pick(random, params.quantifiers), subject, predicate };
+            });
+            const conclusions: Proposition[] = [0, 1].map(() => {
+                const subject = randomInt(random, 0, params.terms - 1);
+                const predicate = pick(random, Array.from({ length: params.terms }, (_, i) => i).filter(i => i !== subject));
+                return { quantifier: pick(random, params.quantifiers), subject, predicate };
+            });
+            const texts = [...premises, ...conclusions].map(state);
+            if (new Set(texts).size !== texts.length) return null;
+
+            // Brute force over every arrangement of the sets that the statements allow
+            const premiseMasks = premises.map(premise => worldMasks(premise, params.terms));
+            const conclusionMasks = conclusions.map(conclusion => worldMasks(conclusion, params.terms));
+            const worlds = possibleWorlds(params.terms).filter(world => premiseMasks.every(masks => holdsIn(world, masks)));
+            if (worlds.length === 0) return null;
+            const follows = conclusionMasks.map(masks => worlds.every(world => holdsIn(world, masks)));
+            // Complementary conclusions call for an "either/or" answer, which is not offered
+            const complementary = worlds.every(world => conclusionMasks.filter(masks => holdsIn(world, masks)).length === 1);
+            if (!follows[0] && !follows[1] && complementary) return null;
+
+            const correctAnswer = SYLLOGISM_ANSWERS[follows[0] && follows[1] ? 2 : follows[0] ? 0 : follows[1] ? 1 : 3];
+            if (requireTarget && correctAnswer !== target) return null;
+
+            const reason = (conclusion: Proposition, i: number) => {
+                const label = `Conclusion ${i === 0 ? 'I' : 'II'}`;
+                const opposite = state(negate(conclusion)).replace(/\.$/, '');
+                return follows[i]
+                    ? `${label} follows: the statements cannot all be true if "${opposite}".`
+                    : `${label} does not follow: all the statements can be true while "${opposite}".`;
+            };
+            return {
+                question: `Statements: ${premises.map(state).join(' ')} Conclusions: I. ${state(conclusions[0])} II. ${state(conclusions[1])} Which of the conclusions logically follow from the statements?`,
+                options: shuffle(SYLLOGISM_ANSWERS, random),
+                correctAnswer,
+                explanation: conclusions.map(reason).join(' '),
+            };
+        };
+
+        try {
+            return retryUntilVerified(attempt(true));
+        } catch {
+            return retryUntilVerified(attempt(false));
+        }
+    },
+};
+
+// ---------------------------------------------------------------------------
+// Direction sense
+// ---------------------------------------------------------------------------
+
+const HEADINGS = ['North', 'East', 'South', 'West'];
+const HEADING_VECTORS = [[0, 1], [1, 0], [0, -1], [-1, 0]];
+const WALKERS = ['Ravi', 'Meera', 'Kabir', 'Sana', 'Arjun', 'Priya'];
+
+const directionParams: Record<Difficulty, { legs: [number, number]; maxLeg: number; questions: ('distance' | 'direction')[] }> = {
+    Easy: { legs: [2, 3], maxLeg: 10, questions: ['distance'] },
+    Medium: { legs: [3, 4], maxLeg: 15, questions: ['distance', 'direction'] },
+    Hard: { legs: [4, 5], maxLeg: 20, questions: ['distance', 'direction'] },
+};
+
+const compassDirection = (dx: number, dy: number) =>
+    [dy > 0 ? 'North' : dy < 0 ? 'South' : '', dx > 0 ? 'East' : dx < 0 ? 'West' : ''].filter(Boolean).join('-');
+
+const directionSense: QuestionGenerator = {
+    id: 'direction-sense',
+    topic: TOPIC,
+    subtopic: 'Direction Sense',
+    generate: (random, difficulty) => {
+        const params = directionParams[difficulty];
+        return retryUntilVerified(() => {
+            const walker = pick(random, WALKERS);
+            const start = randomInt(random, 0, 3);
+            const legs = Array.from({ length: randomInt(random, ...params.legs) }, (_, i) => ({
+                turn: i === 0 ? null : pick(random, ['left', 'right'] as const),
+                distance: randomInt(random, 1, params.maxLeg),
+            }));
+
+            // Walk the route by following the turns
+            let heading = start;
+            let [dx, dy] = [0, 0];
+            legs.forEach(leg => {
+                if (leg.turn) heading = (heading + (leg.turn === 'right' ? 1 : 3)) % 4;
+                dx += HEADING_VECTORS[heading][0] * leg.distance;
+                dy += HEADING_VECTORS[heading][1] * leg.distance;
+            });
+            const distance = Math.hypot(dx, dy);
+            if (distance === 0 || !Number.isInteger(distance)) return null;
+
+            const route = legs.map((leg, i) => i === 0
+                ? `walks ${leg.distance} km towards ${HEADINGS[start]}`
+                : `${i === legs.length - 1 ? 'finally ' : ''}turns ${leg.turn} and walks ${leg.distance} km`
+            ).join(', ');
+            const walked = legs.reduce((sum, leg) => sum + leg.distance, 0);
+            const kind = pick(random, params.questions);
+            const direction = compassDirection(dx, dy);
+            const moves = [
+                dx !== 0 ? `${Math.abs(dx)} km ${dx > 0 ? 'East' : 'West'}` : '',
+                dy !== 0 ? `${Math.abs(dy)} km ${dy > 0 ? 'North' : 'South'}` : '',
+            ].filter(Boolean).join(' and ');
+
+            if (kind === 'direction') {
+                const correctAnswer = direction;
+                const all = ['North', 'South', 'East', 'West', 'North-East', 'North-West', 'South-East', 'South-West'];
+                return {
+                    question: `Starting from a point, ${walker} ${route}. In which direction is ${walker} now from the starting point?`,
+                    options: buildOptions(random, correctAnswer, [compassDirection(-dx, -dy), compassDirection(dy, dx), ...shuffle(all, random)]),
+                    correctAnswer,
+                    explanation: `Adding up the legs, ${walker} ends ${moves} of the start, so ${walker} is to the ${direction} of the starting point.`,
+                };
+            }
+
+            const correctAnswer = `${distance} km`;
+            return {
+                question: `Starting from a point, ${walker} ${route}. How far is ${walker} now from the starting point?`,
+                options: buildOptions(random, correctAnswer, [
+                    `${walked} km`,
+                    `${Math.abs(dx) + Math.abs(dy)} km`,
+                    ...[distance + 2, distance + 1, distance - 1, distance + 3].filter(d => d > 0).map(d => `${d} km`),
+                ]),
+                correctAnswer,
+                explanation: `Adding up the legs, ${walker} ends ${moves} of the start. The straight-line distance is √(${Math.abs(dx)}² + ${Math.abs(dy)}²) = ${distance} km.`,
+            };
+        });
+    },
+};
+
+export const logicGenerators: QuestionGenerator[] = [
+    numberSeries,
+    letterSeries,
+    codingDecoding,
+    bloodRelations,
+    seatingArrangement,
+    syllogisms,
+    directionSense,
+];
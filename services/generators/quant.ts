@@ -0,0 +1,375 @@
+import { QuestionGenerator, buildOptions, formatCurrency, formatFraction, formatNumber, gcd, nearby, round2 } from './common';
+import { pick, randomInt } from '../random';
+
+const TOPIC = 'Quantitative Aptitude';
+
+const describeChange = (percent: number) => {
+    if (percent === 0) return 'No change';
+    return `${formatNumber(Math.abs(percent))}% ${percent > 0 ? 'increase' : 'decrease'}`;
+};
+
+const percentages: QuestionGenerator = {
+    id: 'percentages',
+    topic: TOPIC,
+    subtopic: 'Percentages',
+    generate: (random, difficulty) => {
+        if (difficulty === 'Hard') {
+            // Successive increase then decrease
+            const rates = [10, 20, 25, 30, 40, 50];
+            const up = pick(random, rates);
+            const down = pick(random, rates);
+            const factor = (100 + up) * (100 - down) / 10000;
+            const net = round2((factor - 1) * 100);
+            const correctAnswer = describeChange(net);
+            return {
+                question: `The price of an item is increased by ${up}% and then decreased by ${down}%. What is the net change in its price?`,
+                options: buildOptions(random, correctAnswer, [
+                    describeChange(up - down),
+                    describeChange(-net),
+                    describeChange(up * down / 100),
+                    describeChange(-up * down / 100),
+                    describeChange(net - 2),
+                    describeChange(net + 2),
+                ]),
+                correctAnswer,
+                explanation: `Apply the changes one after the other: ${formatNumber(1 + up / 100)} × ${formatNumber(1 - down / 100)} = ${formatNumber(factor)}. The final price is ${formatNumber(factor * 100)}% of the original, so the result is: ${correctAnswer.toLowerCase()}. Simply subtracting ${down}% from ${up}% ignores that the decrease applies to the already increased price.`,
+            };
+        }
+
+        const percent = difficulty === 'Easy' ? pick(random, [10, 20, 25, 50]) : randomInt(random, 1, 19) * 5;
+        const base = randomInt(random, 2, difficulty === 'Easy' ? 20 : 50) * 20;
+        const answer = percent * base / 100;
+        const correctAnswer = formatNumber(answer);
+        return {
+            question: `What is ${percent}% of ${base}?`,
+            options: buildOptions(random, correctAnswer, [
+                formatNumber(base - answer),
+                formatNumber(answer * 10),
+                formatNumber(answer / 10),
+                ...nearby(answer, 5).map(formatNumber),
+            ]),
+            correctAnswer,
+            explanation: `${percent}% of ${base} = ${percent}/100 × ${base} = ${correctAnswer}.`,
+        };
+    },
+};
+
+const profitAndLoss: QuestionGenerator = {
+    id: 'profit-and-loss',
+    topic: TOPIC,
+    subtopic: 'Profit and Loss',
+    generate: (random, difficulty) => {
+        const cost = randomInt(random, 2, 20) * 100;
+
+        if (difficulty === 'Hard') {
+            // Recover the cost price from the selling price
+            const percent = pick(random, [10, 20, 25, 30, 40, 50]);
+            const sell = cost * (100 + percent) / 100;
+            const correctAnswer = formatCurrency(cost);
+            return {
+                question: `By selling an article for ${formatCurrency(sell)}, a trader makes a profit of ${percent}%. What is the cost price of the article?`,
+                options: buildOptions(random, correctAnswer, [
+                    formatCurrency(sell * (100 - percent) / 100),
+                    formatCurrency(sell - percent),
+                    ...nearby(cost, 50).map(formatCurrency),
+                ]),
+                correctAnswer,
+                explanation: `Selling price = cost price × (100 + ${percent})/100, so cost price = ${formatCurrency(sell)} × 100/${100 + percent} = ${correctAnswer}. Taking ${percent}% off the selling price gives ${formatCurrency(sell * (100 - percent) / 100)}, which is wrong because the profit is a percentage of the cost price.`,
+            };
+        }
+
+        const percent = difficulty === 'Easy' ? pick(random, [10, 20, 25, 50]) : pick(random, [5, 8, 12, 15, 16, 24, 30, 35, 40]);
+        const isLoss = difficulty === 'Medium' && random() < 0.4;
+        const kind = isLoss ? 'loss' : 'profit';
+        const otherKind = isLoss ? 'profit' : 'loss';
+        const sell = cost * (100 + (isLoss ? -percent : percent)) / 100;
+        const difference = Math.abs(sell - cost);
+        const onSellingPrice = difference / sell * 100;
+        const correctAnswer = `${percent}% ${kind}`;
+        return {
+            question: `An article bought for ${formatCurrency(cost)} is sold for ${formatCurrency(sell)}. What is the profit or loss percentage?`,
+            options: buildOptions(random, correctAnswer, [
+                `${percent}% ${otherKind}`,
+                `${formatNumber(onSellingPrice)}% ${kind}`,
+                ...nearby(percent, 5).map(p => `${p}% ${kind}`),
+            ]),
+            correctAnswer,
+            explanation: `The ${kind} is the difference between the two prices, ${formatCurrency(difference)}. ${kind === 'profit' ? 'Profit' : 'Loss'}% is always calculated on the cost price: ${formatNumber(difference)}/${cost} × 100 = ${percent}%.`,
+        };
+    },
+};
+
+const ratioAndProportion: QuestionGenerator = {
+    id: 'ratio-and-proportion',
+    topic: TOPIC,
+    subtopic: 'Ratio and Proportion',
+    generate: (random, difficulty) => {
+        if (difficulty === 'Hard') {
+            // Two numbers whose ratio changes when the same amount is added to both
+            let a = randomInt(random, 1, 6);
+            let b = randomInt(random, a + 1, 9);
+            const divisor = gcd(a, b);
+            a /= divisor;
+            b /= divisor;
+            const multiplier = randomInt(random, 2, 8);
+            const added = randomInt(random, 1, 5) * multiplier;
+            const smaller = a * multiplier;
+            const larger = b * multiplier;
+            const newDivisor = gcd(smaller + added, larger + added);
+            const c = (smaller + added) / newDivisor;
+            const d = (larger + added) / newDivisor;
+            const correctAnswer = `${smaller}`;
+            return {
+                question: `Two numbers are in the ratio ${a} : ${b}. If ${added} is added to each, the ratio becomes ${c} : ${d}. What is the smaller number?`,
+                options: buildOptions(random, correctAnswer, [
+                    `${larger}`,
+                    `${smaller + added}`,
+                    `${a * (multiplier + 1)}`,
+                    ...nearby(smaller, a).map(String),
+                ]),
+                correctAnswer,
+                explanation: `Let the numbers be ${a}x and ${b}x. Then (${a}x + ${added}) : (${b}x + ${added}) = ${c} : ${d}, so ${d}(${a}x + ${added}) = ${c}(${b}x + ${added}), which gives x = ${multiplier}. The smaller number is ${a} × ${multiplier} = ${smaller}.`,
+            };
+        }
+
+        const drawn = difficulty === 'Easy'
+            ? [randomInt(random, 1, 4), randomInt(random, 5, 9)]
+            : [randomInt(random, 1, 3), randomInt(random, 4, 6), randomInt(random, 7, 9)];
+        // State the ratio in its lowest terms
+        const common = drawn.reduce(gcd);
+        const parts = drawn.map(part => part / common);
+        const names = ['P', 'Q', 'R'].slice(0, parts.length);
+        const unit = randomInt(random, 2, 20) * 10;
+        const totalParts = parts.reduce((sum, part) => sum + part, 0);
+        const total = totalParts * unit;
+        const target = randomInt(random, 0, parts.length - 1);
+        const share = parts[target] * unit;
+        const correctAnswer = formatCurrency(share);
+        return {
+            question: `${formatCurrency(total)} is divided among ${names.join(', ').replace(/, ([^,]*)$/, ' and $1')} in the ratio ${parts.join(' : ')}. What is ${names[target]}'s share?`,
+            options: buildOptions(random, correctAnswer, [
+                ...parts.filter((_, i) => i !== target).map(part => formatCurrency(part * unit)),
+                formatCurrency(round2(total / parts.length)),
+                ...nearby(share, unit).map(formatCurrency),
+            ]),
+            correctAnswer,
+            explanation: `The ratio has ${parts.join(' + ')} = ${totalParts} parts, so one part is ${formatCurrency(total)} ÷ ${totalParts} = ${formatCurrency(unit)}. ${names[target]} gets ${parts[target]} part${parts[target] === 1 ? '' : 's'}: ${parts[target]} × ${formatCurrency(unit)} = ${correctAnswer}.`,
+        };
+    },
+};
+
+const simpleInterest: QuestionGenerator = {
+    id: 'simple-interest',
+    topic: TOPIC,
+    subtopic: 'Simple Interest',
+    generate: (random, difficulty) => {
+        const principal = difficulty === 'Easy' ? randomInt(random, 1, 10) * 1000 : randomInt(random, 2, 40) * 500;
+        const rate = difficulty === 'Easy' ? pick(random, [5, 10]) : pick(random, [4, 6, 8, 12, 15]);
+        const years = difficulty === 'Easy' ? randomInt(random, 2, 3) : randomInt(random, 2, 5);
+        const interest = principal * rate * years / 100;
+
+        if (difficulty === 'Hard') {
+            // Find the rate from the interest earned
+            const correctAnswer = `${rate}%`;
+            return {
+                question: `A sum of ${formatCurrency(principal)} earns a simple interest of ${formatCurrency(interest)} in ${years} years. What is the rate of interest per annum?`,
+                options: buildOptions(random, correctAnswer, [
+                    `${formatNumber(rate * years)}%`,
+                    `${formatNumber(interest / principal * 100 / (years + 1))}%`,
+                    ...nearby(rate, 2).map(r => `${r}%`),
+                ]),
+                correctAnswer,
+                explanation: `SI = P × R × T / 100, so R = SI × 100 / (P × T) = ${formatNumber(interest)} × 100 / (${principal} × ${years}) = ${rate}% per annum.`,
+            };
+        }
+
+        const correctAnswer = formatCurrency(interest);
+        const compound = principal * ((1 + rate / 100) ** years - 1);
+        return {
+            question: `What is the simple interest on ${formatCurrency(principal)} at ${rate}% per annum for ${years} years?`,
+            options: buildOptions(random, correctAnswer, [
+                formatCurrency(principal + interest),
+                formatCurrency(principal * rate / 100),
+                formatCurrency(compound),
+                ...nearby(interest, principal * rate / 200).map(formatCurrency),
+            ]),
+            correctAnswer,
+            explanation: `SI = P × R × T / 100 = ${principal} × ${rate} × ${years} / 100 = ${correctAnswer}. (The amount would be ${formatCurrency(principal + interest)}, but the question asks only for the interest.)`,
+        };
+    },
+};
+
+const compoundInterest: QuestionGenerator = {
+    id: 'compound-interest',
+    topic: TOPIC,
+    subtopic: 'Compound Interest',
+    generate: (random, difficulty) => {
+        const principal = randomInt(random, 1, 20) * 1000;
+
+        if (difficulty === 'Hard') {
+            // Difference between compound and simple interest over two years
+            const rate = pick(random, [5, 10, 15, 20]);
+            const difference = principal * rate * rate / 10000;
+            const correctAnswer = formatCurrency(difference);
+            return {
+                question: `What is the difference between the compound interest and the simple interest on ${formatCurrency(principal)} at ${rate}% per annum for 2 years?`,
+                options: buildOptions(random, correctAnswer, [
+                    formatCurrency(difference * 2),
+                    formatCurrency(principal * rate / 100),
+                    formatCurrency(difference / 2),
+                    ...nearby(difference, Math.max(1, difference / 4)).map(formatCurrency),
+                ]),
+                correctAnswer,
+                explanation: `For 2 years, CI − SI = P × (R/100)² = ${principal} × (${rate}/100)² = ${correctAnswer}. It is the interest earned in the second year on the first year's interest.`,
+            };
+        }
+
+        const rate = difficulty === 'Easy' ? 10 : pick(random, [5, 10, 20]);
+        const years = difficulty === 'Easy' ? 2 : randomInt(random, 2, 3);
+        const amount = principal * (1 + rate / 100) ** years;
+        const interest = amount - principal;
+        const correctAnswer = formatCurrency(interest);
+        return {
+            question: `What is the compound interest on ${formatCurrency(principal)} at ${rate}% per annum for ${years} years, compounded annually?`,
+            options: buildOptions(random, correctAnswer, [
+                formatCurrency(principal * rate * years / 100),
+                formatCurrency(amount),
+                formatCurrency(principal * ((1 + rate / 100) ** (years - 1)) - principal),
+                ...nearby(interest, principal / 100).map(formatCurrency),
+            ]),
+            correctAnswer,
+            explanation: `Amount = P × (1 + R/100)^T = ${principal} × ${formatNumber(1 + rate / 100)}^${years} = ${formatCurrency(amount)}. Compound interest = amount − principal = ${formatCurrency(amount)} − ${formatCurrency(principal)} = ${correctAnswer}.`,
+        };
+    },
+};
+
+const timeSpeedDistance: QuestionGenerator = {
+    id: 'time-speed-distance',
+    topic: TOPIC,
+    subtopic: 'Time, Speed and Distance',
+    generate: (random, difficulty) => {
+        if (difficulty === 'Easy') {
+            // Multiples of 18 km/h convert to whole metres per second
+            const speedKmh = pick(random, [36, 54, 72, 90, 108]);
+            const speedMs = speedKmh * 5 / 18;
+            const seconds = randomInt(random, 5, 20);
+            const length = speedMs * seconds;
+            const correctAnswer = `${speedKmh} km/h`;
+            return {
+                question: `A train ${length} m long passes a pole in ${seconds} seconds. What is its speed in km/h?`,
+                options: buildOptions(random, correctAnswer, [
+                    `${speedMs} km/h`,
+                    `${formatNumber(speedMs * 5 / 18)} km/h`,
+                    ...nearby(speedKmh, 18).map(v => `${v} km/h`),
+                ]),
+                correctAnswer,
+                explanation: `To pass a pole the train covers its own length: speed = ${length} m ÷ ${seconds} s = ${speedMs} m/s. Converting, ${speedMs} × 18/5 = ${speedKmh} km/h.`,
+            };
+        }
+
+        if (difficulty === 'Medium') {
+            const speedMs = pick(random, [10, 15, 20, 25, 30]);
+            const speedKmh = speedMs * 18 / 5;
+            const seconds = randomInt(random, 10, 40);
+            const distance = speedMs * seconds;
+            const length = Math.round(distance * randomInt(random, 3, 6) / 100) * 10;
+            const platform = distance - length;
+            const correctAnswer = `${seconds} seconds`;
+            return {
+                question: `A train ${length} m long running at ${speedKmh} km/h crosses a platform ${platform} m long. How long does it take to cross the platform?`,
+                options: buildOptions(random, correctAnswer, [
+                    `${formatNumber(platform / speedMs)} seconds`,
+                    `${formatNumber(length / speedMs)} seconds`,
+                    `${formatNumber(distance / speedKmh)} seconds`,
+                    ...nearby(seconds, 2).map(s => `${s} seconds`),
+                ]),
+                correctAnswer,
+                explanation: `To cross a platform the train covers its own length plus the platform: ${length} + ${platform} = ${distance} m. Its speed is ${speedKmh} × 5/18 = ${speedMs} m/s, so the time is ${distance} ÷ ${speedMs} = ${seconds} seconds.`,
+            };
+        }
+
+        // Two trains in opposite directions; the speed sum is a multiple of 18 km/h
+        const first = randomInt(random, 4, 10) * 9;
+        let second = randomInt(random, 6, 12) * 18 - first;
+        if (second <= 0 || second === first) second = first + 18;
+        const relativeMs = (first + second) * 5 / 18;
+        const seconds = randomInt(random, 6, 20);
+        const totalLength = relativeMs * seconds;
+        const firstLength = Math.max(10, Math.round(totalLength * randomInt(random, 35, 65) / 1000) * 10);
+        const secondLength = totalLength - firstLength;
+        const correctAnswer = `${seconds} seconds`;
+        return {
+            question: `Two trains ${firstLength} m and ${secondLength} m long run on parallel tracks in opposite directions at ${first} km/h and ${second} km/h. How long do they take to cross each other completely?`,
+            options: buildOptions(random, correctAnswer, [
+                `${formatNumber(totalLength / (Math.abs(first - second) * 5 / 18))} seconds`,
+                `${formatNumber(totalLength / (first + second))} seconds`,
+                ...nearby(seconds, 2).map(s => `${s} seconds`),
+            ]),
+            correctAnswer,
+            explanation: `Moving in opposite directions, the relative speed is ${first} + ${second} = ${first + second} km/h = ${formatNumber(relativeMs)} m/s. Together they must cover ${firstLength} + ${secondLength} = ${totalLength} m, which takes ${totalLength} ÷ ${formatNumber(relativeMs)} = ${seconds} seconds.`,
+        };
+    },
+};
+
+// All pairs (a, b) with a < b <= limit, computed once
+const pairsUpTo = (limit: number) => {
+    const pairs: [number, number][] = [];
+    for (let a = 2; a <= limit; a++) {
+        for (let b = a + 1; b <= limit; b++) pairs.push([a, b]);
+    }
+    return pairs;
+};
+const WHOLE_DAY_PAIRS = pairsUpTo(30).filter(([a, b]) => (a * b) % (a + b) === 0);
+const ANY_PAIRS = pairsUpTo(30);
+
+const formatDays = (numerator: number, denominator = 1) => `${formatFraction(numerator, denominator)} days`;
+
+const timeAndWork: QuestionGenerator = {
+    id: 'time-and-work',
+    topic: TOPIC,
+    subtopic: 'Time and Work',
+    generate: (random, difficulty) => {
+        const [a, b] = pick(random, difficulty === 'Medium' ? ANY_PAIRS : WHOLE_DAY_PAIRS);
+
+        if (difficulty === 'Hard') {
+            // Find B's time from A's time and the time together
+            const together = a * b / (a + b);
+            const correctAnswer = formatDays(b);
+            return {
+                question: `A and B together can finish a piece of work in ${together} days. A alone can finish it in ${a} days. In how many days can B alone finish it?`,
+                options: buildOptions(random, correctAnswer, [
+                    formatDays(a - together),
+                    formatDays(a + together),
+                    formatDays(a * together, a + together),
+                    ...nearby(b, 2).map(days => formatDays(days)),
+                ]),
+                correctAnswer,
+                explanation: `In one day A and B together do 1/${together} of the work and A does 1/${a}. So B does 1/${together} − 1/${a} = 1/${b} of the work per day, and needs ${b} days alone.`,
+            };
+        }
+
+        const correctAnswer = formatDays(a * b, a + b);
+        return {
+            question: `A can finish a piece of work in ${a} days and B can finish it in ${b} days. In how many days can they finish it working together?`,
+            options: buildOptions(random, correctAnswer, [
+                formatDays(a + b),
+                formatDays(a + b, 2),
+                formatDays(b - a),
+                formatDays(a * b + (a + b), a + b),
+                formatDays(Math.max(1, a * b - (a + b)), a + b),
+            ]),
+            correctAnswer,
+            explanation: `In one day A does 1/${a} and B does 1/${b} of the work, together 1/${a} + 1/${b} = ${a + b}/${a * b}. They need ${a * b}/${a + b} = ${correctAnswer} working together. Averaging the two times is a common mistake: working together is always faster than either alone.`,
+        };
+    },
+};
+
+export const quantGenerators: QuestionGenerator[] = [
+    percentages,
+    profitAndLoss,
+    ratioAndProportion,
+    simpleInterest,
+    compoundInterest,
+    timeSpeedDistance,
+    timeAndWork,
+];
@@ -0,0 +1,80 @@
+import { ViolationKind } from '../types';
+
+export const DEFAULT_MAX_VIOLATIONS = 3;
+
+export const maxViolationOptions = [1, 3, 5, 10];
+
+export const violationLabels: Record<ViolationKind, string> = {
+    'tab-switch': 'Switched tab or minimised',
+    'window-blur': 'Left the test window',
+    'copy': 'Copied text',
+    'paste': 'Pasted text',
+    'fullscreen-exit': 'Exited fullscreen',
+};
+
+// Switching tabs also blurs the window; wait this long to tell the two apart
+const BLUR_SETTLE_MS = 200;
+
+export const isFullscreen = () => !!document.fullscreenElement;
+
+/**
+ * Enters fullscreen. Browsers only allow this from a click or key press, so
+ * call it before awaiting anything in the handler. Resolves to whether the
+ * page is fullscreen afterwards.
+ */
+export const enterFullscreen = async (): Promise<boolean> => {
+    if (isFullscreen()) return true;
+    try {
+        await document.documentElement.requestFullscreen();
+        return true;
+    } catch (e) {
+        console.warn("Could not enter fullscreen:", e);
+        return false;
+    }
+};
+
+export const exitFullscreen = () => {
+    if (isFullscreen()) {
+        document.exitFullscreen().catch(e => console.warn("Could not exit fullscreen:", e));
+    }
+};
+
+/**
+ * Reports every proctoring violation until the returned function is called
+ * to stop watching.
+ */
+export const watchForViolations = (onViolation: (kind: ViolationKind) => void): (() => void) => {
+    let blurTimer: number | undefined;
+
+    const handleVisibilityChange = () => {
+        if (document.hidden) onViolation('tab-switch');
+    };
+    const handleBlur = () => {
+        window.clearTimeout(blurTimer);
+        blurTimer = window.setTimeout(() => {
+            if (!document.hidden) onViolation('window-blur');
+        }, BLUR_SETTLE_MS);
+    };
+    const handleCopy = () => onViolation('copy');
+    const handlePaste = () => onViolation('paste');
+    const handleFullscreenChange = () => {
+        if (!isFullscreen()) onViolation('fullscreen-exit');
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+
+    return () => {
+        window.clearTimeout(blurTimer);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        window.removeEventListener('blur', handleBlur);
+        document.removeEventListener('copy', handleCopy);
+        document.removeEventListener('cut', handleCopy);
+        document.removeEventListener('paste', handlePaste);
+        document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+};
@@ -0,0 +1,72 @@
+import bankData from '../data/questionBank.json';
+import { supabase } from './supabase';
+import { BankQuestion, Difficulty, Question, QuestionBank, QuestionFormat } from '../types';
+import { validateQuestion } from './questionValidation';
+import { RandomSource, shuffle } from './random';
+
+const bank = bankData as QuestionBank;
+
+export const QUESTION_BANK_VERSION = bank.version;
+
+// Bank entries go through the same checks as generated questions, so a bad edit to the JSON cannot reach users
+const verifiedQuestions: BankQuestion[] = bank.questions.filter(item => {
+    const result = validateQuestion(item);
+    if (!result || result.repaired) {
+        console.warn(`Question bank item "${item.id}" failed validation and was skipped.`);
+        return false;
+    }
+    return true;
+});
+
+// The topic is implied by the test the question is drawn for
+const toQuestion = ({ topic: _topic, ...question }: BankQuestion): Question => ({
+    ...question, source: 'bank',
+});
+
+/**
+ * Replaces the server's copy of the bank, which bank questions are graded
+ * against, with this version. Admins only. Returns the number of questions
+ * saved; throws the Supabase error if it fails.
+ */
+export const syncQuestionBank = async (): Promise<number> => {
+    const { data, error } = await supabase.rpc('sync_question_bank', {
+        bank_version: QUESTION_BANK_VERSION,
+        questions: verifiedQuestions.map(q => ({ ...toQuestion(q), topic: q.topic }))
+    });
+    if (error) throw error;
+    return data as number;
+};
+
+export const countBankQuestions = (topic: string) => verifiedQuestions.filter(q => q.topic === topic).length;
+
+/**
+ * Draws up to `count` random bank questions for a topic, or one of its
+ * subtopics, preferring the requested difficulty and falling back to the
+ * others. Questions whose id is in `exclude` are skipped. In 'passages' format
+ * only passage questions are drawn, a whole passage at a time; otherwise they
+ * are left out. A seeded `random` makes the draw the same on every device.
+ */
+export const drawBankQuestions = (
+    topic: string,
+    count: number,
+    difficulty: Difficulty,
+    exclude: Question[] = [],
+    format: QuestionFormat = 'standalone',
+    subtopic?: string,
+    random: RandomSource = Math.random
+): Question[] => {
+    const excluded = new Set(exclude.map(q => q.id).filter(Boolean));
+    const candidates = verifiedQuestions.filter(q =>
+        q.topic === topic && (!subtopic || q.subtopic === subtopic) && !excluded.has(q.id) && !!q.passage === (format === 'passages')
+    );
+
+    if (format === 'passages') {
+        const passages = new Map<string, BankQuestion[]>();
+        candidates.forEach(q => passages.set(q.passage!.id, [...(passages.get(q.passage!.id) ?? []), q]));
+        return shuffle([...passages.values()], random).flat().slice(0, count).map(toQuestion);
+    }
+
+    const preferred = shuffle(candidates.filter(q => q.difficulty === difficulty), random);
+    const others = shuffle(candidates.filter(q => q.difficulty !== difficulty), random);
+    return [...preferred, ...others].slice(0, count).map(toQuestion);
+};
@@ -0,0 +1,89 @@
+import { Difficulty, Question, QuestionFormat, QuestionSource } from '../types';
+import { generateAptitudeQuestions } from './geminiService';
+import { drawBankQuestions } from './questionBank';
+import { generateProceduralQuestions } from './generators';
+import { ValidationReport } from './questionValidation';
+import { shuffle } from './random';
+
+export interface LoadedQuestions extends ValidationReport {
+    // How many of the questions came from the bundled question bank
+    fromBank: number;
+    // How many were produced by the procedural generators
+    generated: number;
+}
+
+// Topics that can be drawn as reading-comprehension passage sets
+const PASSAGE_TOPICS = ['Verbal Ability'];
+
+export const supportsPassages = (topic: string) => PASSAGE_TOPICS.includes(topic);
+
+const stimulusId = (question: Question) => question.passage?.id ?? question.dataSet?.id;
+
+// Keeps questions about the same passage or chart together, in order of first appearance
+const groupByStimulus = (questions: Question[]): Question[] => {
+    const groups = new Map<string, Question[]>();
+    questions.forEach((question, i) => {
+        const key = stimulusId(question) ?? `question-${i}`;
+        groups.set(key, [...(groups.get(key) ?? []), question]);
+    });
+    return [...groups.values()].flat();
+};
+
+/**
+ * Loads the questions for a test from the chosen source.
+ * - 'ai': Gemini only, topped up from the question bank if it is unreachable or falls short.
+ * - 'bank': the bundled question bank only; works offline.
+ * - 'mixed': about half verified bank questions, half AI, topped up from the bank.
+ * - 'generated': procedural questions with computed answers; works offline.
+ * Whatever is still missing is filled by the procedural generators, where the
+ * topic has any, and then by the bank. Passage sets come only from Gemini and
+ * the bank, since the generators cannot write passages. Given a subtopic,
+ * every source is restricted to it.
+ */
+export const loadTestQuestions = async (
+    topic: string,
+    count: number,
+    difficulty: Difficulty,
+    source: QuestionSource = 'ai',
+    format: QuestionFormat = 'standalone',
+    subtopic?: string
+): Promise<LoadedQuestions> => {
+    let bankQuestions: Question[] = [];
+    let generatedQuestions: Question[] = [];
+    let aiBatch: ValidationReport = { questions: [], dropped: 0, repaired: 0 };
+    const canGenerate = format === 'standalone';
+
+    if (source === 'bank' || (source === 'generated' && !canGenerate)) {
+        bankQuestions = drawBankQuestions(topic, count, difficulty, [], format, subtopic);
+    } else if (source === 'generated') {
+        generatedQuestions = generateProceduralQuestions(topic, count, difficulty, Date.now(), [], subtopic);
+    } else {
+        const bankShare = source === 'mixed' ? Math.ceil(count / 2) : 0;
+        bankQuestions = drawBankQuestions(topic, bankShare, difficulty, [], format, subtopic);
+        aiBatch = await generateAptitudeQuestions(topic, count - bankQuestions.length, difficulty, format, subtopic);
+
+        const shortfall = count - bankQuestions.length - aiBatch.questions.length;
+        if (shortfall > 0) {
+            bankQuestions = [...bankQuestions, ...drawBankQuestions(topic, shortfall, difficulty, bankQuestions, format, subtopic)];
+        }
+    }
+
+    const aiQuestions = aiBatch.questions.map(q => ({ ...q, difficulty, source: 'ai' as const }));
+    const loaded = [...aiQuestions, ...bankQuestions, ...generatedQuestions];
+    if (loaded.length < count && source !== 'generated' && canGenerate) {
+        generatedQuestions = generateProceduralQuestions(topic, count - loaded.length, difficulty, Date.now(), loaded, subtopic);
+    } else if (loaded.length < count && source === 'generated') {
+        bankQuestions = drawBankQuestions(topic, count - loaded.length, difficulty, bankQuestions, format, subtopic);
+    }
+
+    const questions = source === 'mixed'
+        ? shuffle([...bankQuestions, ...aiQuestions, ...generatedQuestions])
+        : [...aiQuestions, ...bankQuestions, ...generatedQuestions];
+    return {
+        questions: groupByStimulus(questions),
+        dropped: aiBatch.dropped,
+        repaired: aiBatch.repaired,
+        fromBank: bankQuestions.length,
+        generated: generatedQuestions.length,
+    };
+};
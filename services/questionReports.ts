@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import { Question, QuestionReport, ReportReason } from '../types';
+
+export const reportReasons: { value: ReportReason; label: string; description: string }[] = [
+    { value: 'wrong-answer', label: 'Wrong answer', description: 'The marked answer is incorrect.' },
+    { value: 'ambiguous', label: 'Ambiguous', description: 'More than one answer could be right, or none is.' },
+    { value: 'typo', label: 'Typo', description: 'A spelling, number or formatting mistake.' },
+    { value: 'offensive', label: 'Offensive', description: 'The content is inappropriate.' },
+];
+
+export const reportReasonLabel = (reason: ReportReason) =>
+    reportReasons.find(r => r.value === reason)?.label ?? reason;
+
+/** Saves a report with the full question payload. Throws the Supabase error if it fails. */
+export const reportQuestion = async (userId: string, topic: string, question: Question, reason: ReportReason, details: string) => {
+    const { error } = await supabase
+        .from('question_reports')
+        .insert({
+            user_id: userId,
+            topic,
+            question,
+            reason,
+            details: details.trim()
+        });
+    if (error) throw error;
+};
+
+/** Reports waiting for review, oldest first. Only admins can see other users' reports. */
+export const loadOpenReports = async (): Promise<QuestionReport[]> => {
+    const { data, error } = await supabase
+        .from('question_reports')
+        .select('*')
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as QuestionReport[];
+};
+
+/**
+ * Accepts or rejects a report. Accepting with a corrected answer, encoded like a
+ * response and with numbers in the question's unit, regrades every saved
+ * response to the question, recomputes the affected results and adjusts the XP
+ * of their users, in one database transaction. Returns the number of regraded
+ * test results.
+ */
+export const resolveReport = async (
+    reportId: string,
+    accept: boolean,
+    options: { correctedAnswer?: string; note?: string } = {}
+): Promise<number> => {
+    const { data, error } = await supabase.rpc('resolve_question_report', {
+        report_id: reportId,
+        accept,
+        corrected_answer: options.correctedAnswer ?? null,
+        note: options.note?.trim() || null
+    });
+    if (error) throw error;
+    return data as number;
+};
@@ -0,0 +1,233 @@
+import { DataSet, DataSetKind, Passage, Question, QuestionType } from '../types';
+import { parseNumericAnswer } from './answers';
+import { hashSeed, shuffle } from './random';
+
+export const OPTIONS_PER_QUESTION = 4;
+
+// Option counts allowed for the question types that are not single-choice
+const MULTI_SELECT_OPTIONS = { min: 4, max: 6 };
+const ORDERING_ITEMS = { min: 3, max: 6 };
+
+const QUESTION_TYPES: QuestionType[] = ['single-choice', 'numeric', 'multi-select', 'ordering'];
+
+export interface ValidationReport {
+    questions: Question[];
+    // Items rejected as unusable, including duplicates
+    dropped: number;
+    // Items kept after fixing their correct answer or whitespace
+    repaired: number;
+}
+
+/** Tells the test taker how many AI questions failed validation or were fixed, or null if none. */
+export const validationNotice = ({ dropped, repaired }: Pick<ValidationReport, 'dropped' | 'repaired'>): string | null => {
+    const parts = [
+        dropped > 0 ? `${dropped} discarded as invalid` : '',
+        repaired > 0 ? `${repaired} kept after fixing the answer key or formatting` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? `AI questions checked: ${parts.join(', ')}.` : null;
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Strips prefixes like "A)", "(b)", "C." or "Option D:" that models add to options and answers
+const stripOptionLabel = (text: string) => text.replace(/^\s*(option\s*)?\(?[a-d]\s*[).:]\s*/i, '').trim();
+
+const letterIndex = (answer: string): number | null => {
+    const match = answer.trim().match(/^(?:option\s*)?\(?([a-d])\)?\.?$/i);
+    return match ? match[1].toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0) : null;
+};
+
+/**
+ * Finds the option the model meant by `correctAnswer`. Tries, in order: an
+ * exact match, a match ignoring case, whitespace and option labels, and a bare
+ * option letter. Anything looser risks keying "5" to "5.5", so the item is
+ * dropped instead.
+ */
+const resolveCorrectAnswer = (correctAnswer: string, options: string[]): string | null => {
+    if (options.includes(correctAnswer)) return correctAnswer;
+
+    const target = normalize(stripOptionLabel(correctAnswer));
+    const loose = options.find(option => normalize(stripOptionLabel(option)) === target);
+    if (loose) return loose;
+
+    const index = letterIndex(correctAnswer);
+    if (index !== null && index < options.length) return options[index];
+    return null;
+};
+
+const DATA_SET_KINDS: DataSetKind[] = ['bar', 'line', 'pie', 'table'];
+
+/** A stable id derived from a data set's content. */
+export const dataSetId = (content: Omit<DataSet, 'id'>) => `data-${hashSeed(JSON.stringify(content)).toString(36)}`;
+
+/**
+ * Checks the data behind a chart or table: every series needs one finite value
+ * per category, and pie slices cannot be negative. Data sets without an id get
+ * one derived from their content, so identical data sets share it.
+ */
+export const validateDataSet = (raw: unknown): DataSet | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const item = raw as Partial<Record<keyof DataSet, unknown>>;
+
+    if (typeof item.kind !== 'string' || !DATA_SET_KINDS.includes(item.kind as DataSetKind)) return null;
+    if (typeof item.title !== 'string' || !item.title.trim()) return null;
+    if (!Array.isArray(item.categories) || item.categories.length < 2) return null;
+    if (!item.categories.every(category => typeof category === 'string' && category.trim())) return null;
+    const categories = (item.categories as string[]).map(category => category.trim());
+    if (new Set(categories).size !== categories.length) return null;
+
+    if (!Array.isArray(item.series) || item.series.length === 0) return null;
+    const series = (item.series as unknown[]).map(entry => entry as { name?: unknown; values?: unknown });
+    const valid = series.every(entry =>
+        typeof entry?.name === 'string' && entry.name.trim()
+        && Array.isArray(entry.values) && entry.values.length === categories.length
+        && entry.values.every(value => typeof value === 'number' && Number.isFinite(value) && (item.kind !== 'pie' || value >= 0))
+    );
+    if (!valid) return null;
+
+    const content = {
+        kind: item.kind as DataSetKind,
+        title: item.title.trim(),
+        categories,
+        series: series.map(entry => ({ name: (entry.name as string).trim(), values: entry.values as number[] })),
+        ...(typeof item.unit === 'string' && item.unit.trim() ? { unit: item.unit.trim() } : {}),
+    };
+    const id = typeof item.id === 'string' && item.id.trim() ? item.id.trim() : dataSetId(content);
+    return { id, ...content };
+};
+
+// Shorter "passages" are usually a question stem that was misplaced
+const MIN_PASSAGE_LENGTH = 200;
+
+/** Checks a reading passage; passages without an id get one derived from their text. */
+export const validatePassage = (raw: unknown): Passage | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const item = raw as Partial<Record<keyof Passage, unknown>>;
+    if (typeof item.text !== 'string' || item.text.trim().length < MIN_PASSAGE_LENGTH) return null;
+
+    const text = item.text.trim();
+    const title = typeof item.title === 'string' ? item.title.trim() : '';
+    const id = typeof item.id === 'string' && item.id.trim() ? item.id.trim() : `passage-${hashSeed(text).toString(36)}`;
+    return { id, title, text };
+};
+
+type AnswerKey = Pick<Question, 'options' | 'correctAnswer' | 'correctAnswers' | 'tolerance' | 'unit'>;
+
+const distinctOptions = (options: string[], min: number, max: number) =>
+    options.length >= min && options.length <= max && options.every(Boolean) && new Set(options.map(normalize)).size === options.length;
+
+// Resolves every listed answer to an option, failing if any cannot be matched or repeats
+const resolveCorrectAnswers = (answers: unknown, options: string[]): string[] | null => {
+    if (!Array.isArray(answers) || !answers.every(answer => typeof answer === 'string')) return null;
+    const resolved = (answers as string[]).map(answer => resolveCorrectAnswer(answer.trim(), options));
+    if (resolved.some(answer => answer === null) || new Set(resolved).size !== resolved.length) return null;
+    return resolved as string[];
+};
+
+/** Checks the options and answer of each question type, returning the normalized answer key. */
+const validateAnswerKey = (type: QuestionType, item: Partial<Record<keyof Question, unknown>>, options: string[]): AnswerKey | null => {
+    switch (type) {
+        case 'numeric': {
+            const unit = typeof item.unit === 'string' && item.unit.trim() ? item.unit.trim() : undefined;
+            const value = parseNumericAnswer(String(item.correctAnswer), unit);
+            if (value === null) return null;
+            const tolerance = typeof item.tolerance === 'number' && Number.isFinite(item.tolerance) && item.tolerance > 0 ? item.tolerance : undefined;
+            return { options: [], correctAnswer: String(value), ...(tolerance ? { tolerance } : {}), ...(unit ? { unit } : {}) };
+        }
+        case 'multi-select': {
+            if (!distinctOptions(options, MULTI_SELECT_OPTIONS.min, MULTI_SELECT_OPTIONS.max)) return null;
+            const correctAnswers = resolveCorrectAnswers(item.correctAnswers, options);
+            if (!correctAnswers || correctAnswers.length === 0) return null;
+            // Kept in option order so the answer key reads naturally
+            const ordered = options.filter(option => correctAnswers.includes(option));
+            return { options, correctAnswer: ordered.join('; '), correctAnswers: ordered };
+        }
+        case 'ordering': {
+            if (!distinctOptions(options, ORDERING_ITEMS.min, ORDERING_ITEMS.max)) return null;
+            const correctAnswers = resolveCorrectAnswers(item.correctAnswers, options);
+            if (!correctAnswers || correctAnswers.length !== options.length) return null;
+            // Items shown already in the correct order would give the answer away
+            let shown = options;
+            while (shown.every((option, i) => option === correctAnswers[i])) shown = shuffle(options);
+            return { options: shown, correctAnswer: correctAnswers.join(' → '), correctAnswers };
+        }
+        default: {
+            // Exactly four non-empty, distinct options
+            if (!distinctOptions(options, OPTIONS_PER_QUESTION, OPTIONS_PER_QUESTION)) return null;
+            const correctAnswer = resolveCorrectAnswer(String(item.correctAnswer).trim(), options);
+            return correctAnswer === null ? null : { options, correctAnswer };
+        }
+    }
+};
+
+/**
+ * Checks a single generated item. Returns the (possibly repaired) question,
+ * or null if it cannot be used.
+ */
+export const validateQuestion = (raw: unknown): { question: Question; repaired: boolean } | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const item = raw as Partial<Record<keyof Question, unknown>>;
+
+    if (typeof item.question !== 'string' || typeof item.explanation !== 'string') return null;
+    if (typeof item.correctAnswer !== 'string' && typeof item.correctAnswer !== 'number' && !Array.isArray(item.correctAnswers)) return null;
+    if (item.type !== undefined && !QUESTION_TYPES.includes(item.type as QuestionType)) return null;
+    const type = (item.type as QuestionType | undefined) ?? 'single-choice';
+
+    const options = item.options ?? [];
+    if (!Array.isArray(options) || !options.every(option => typeof option === 'string')) return null;
+
+    const questionText = item.question.trim();
+    const explanation = item.explanation.trim();
+    if (!questionText || !explanation) return null;
+
+    const answerKey = validateAnswerKey(type, item, (options as string[]).map(option => option.trim()));
+    if (answerKey === null) return null;
+
+    // A question that refers to a chart or passage is useless without it
+    const dataSet = item.dataSet == null ? undefined : validateDataSet(item.dataSet);
+    if (dataSet === null) return null;
+    const passage = item.passage == null ? undefined : validatePassage(item.passage);
+    if (passage === null) return null;
+    const subtopic = typeof item.subtopic === 'string' && item.subtopic.trim() ? item.subtopic.trim() : undefined;
+
+    const repaired = questionText !== item.question
+        || explanation !== item.explanation
+        || answerKey.options.length !== options.length
+        || answerKey.options.some((option, i) => option !== (options as string[])[i])
+        || answerKey.correctAnswer !== item.correctAnswer
+        || (answerKey.correctAnswers ?? []).some((answer, i) => answer !== (item.correctAnswers as unknown[])[i]);
+
+    // Single-choice stays untyped, as questions were before types existed
+    const { type: _type, correctAnswers: _correctAnswers, tolerance: _tolerance, unit: _unit, ...rest } = item as Question;
+    return {
+        question: { ...rest, ...(type !== 'single-choice' ? { type } : {}), question: questionText, ...answerKey, explanation, subtopic, dataSet, passage },
+        repaired,
+    };
+};
+
+// Passage and data-set questions often share their wording, e.g. "What is the main idea of the passage?"
+const duplicateKey = (question: Question) =>
+    `${question.passage?.id ?? question.dataSet?.id ?? ''}|${normalize(question.question)}`;
+
+/**
+ * Validates a batch of generated items, dropping invalid ones and any question
+ * already present in the batch or in `existing`.
+ */
+export const validateQuestions = (items: unknown, existing: Question[] = []): ValidationReport => {
+    const list = Array.isArray(items) ? items : [];
+    const seen = new Set(existing.map(duplicateKey));
+    const report: ValidationReport = { questions: [], dropped: 0, repaired: 0 };
+
+    list.forEach(item => {
+        const result = validateQuestion(item);
+        if (!result || seen.has(duplicateKey(result.question))) {
+            report.dropped++;
+            return;
+        }
+        seen.add(duplicateKey(result.question));
+        report.questions.push(result.question);
+        if (result.repaired) report.repaired++;
+    });
+
+    return report;
+};
@@ -0,0 +1,44 @@
+// A source of random numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+/** Returns a shuffled copy of `items` (Fisher-Yates). */
+export const shuffle = <T,>(items: T[], random: RandomSource = Math.random): T[] => {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+};
+
+/** Hashes a string or number into a 32-bit seed (FNV-1a). */
+export const hashSeed = (seed: string | number): number => {
+    const text = String(seed);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Creates a deterministic random source (mulberry32): the same seed always
+ * produces the same sequence, on every device.
+ */
+export const createSeededRandom = (seed: string | number): RandomSource => {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Returns a random integer between `min` and `max`, inclusive. */
+export const randomInt = (random: RandomSource, min: number, max: number): number =>
+    min + Math.floor(random() * (max - min + 1));
+
+export const pick = <T,>(random: RandomSource, items: T[]): T => items[Math.floor(random() * items.length)];
@@ -0,0 +1,182 @@
+import { supabase } from './supabase';
+import { isCorrectAnswer } from './scoring';
+import { hashSeed } from './random';
+import { Question, ReviewItem, ReviewSource, VoiceQuestion } from '../types';
+
+// SM-2 starts every item at this ease and never lets it fall below the minimum
+export const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// An item retires once a correct review pushes it this far out
+export const MASTERED_INTERVAL_DAYS = 21;
+
+// Items served in one daily review session
+export const DAILY_REVIEW_LIMIT = 20;
+
+// Review grades on the SM-2 scale of 0-5; 3 and above count as remembered
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const reviewGrades: { grade: ReviewGrade; label: string }[] = [
+    { grade: 1, label: 'Forgot' },
+    { grade: 3, label: 'Hard' },
+    { grade: 4, label: 'Good' },
+    { grade: 5, label: 'Easy' },
+];
+
+// Grades for questions that are marked automatically
+const CORRECT_GRADE: ReviewGrade = 4;
+const WRONG_GRADE: ReviewGrade = 1;
+
+export interface ReviewSchedule {
+    easeFactor: number;
+    intervalDays: number;
+    repetitions: number;
+    lapses: number;
+}
+
+/** The next schedule of an item after a review with the given grade (SM-2). */
+export const scheduleReview = (current: ReviewSchedule, grade: ReviewGrade): ReviewSchedule => {
+    const easeFactor = Math.max(MIN_EASE_FACTOR, current.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+    if (grade < 3) {
+        return { easeFactor, intervalDays: 1, repetitions: 0, lapses: current.lapses + 1 };
+    }
+    const intervalDays = current.repetitions === 0 ? 1
+        : current.repetitions === 1 ? 6
+        : Math.round(current.intervalDays * current.easeFactor);
+    return { easeFactor, intervalDays, repetitions: current.repetitions + 1, lapses: current.lapses };
+};
+
+export const isMastered = (schedule: ReviewSchedule) => schedule.intervalDays >= MASTERED_INTERVAL_DAYS;
+
+// Due dates are calendar days in the user's time zone, so a day's reviews
+// don't shift with the time of day they were done
+export const localDate = (offsetDays = 0, from = new Date()): string => {
+    const date = new Date(from);
+    date.setDate(date.getDate() + offsetDays);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/** A stable key for a question, so missing it again reschedules the same item. */
+export const questionKey = (question: Question, source: ReviewSource = 'practice'): string =>
+    question.id ?? `${source}-${hashSeed(question.question.trim().toLowerCase()).toString(36)}`;
+
+// Voice questions are stored in the question shape, with the spoken answer
+// as the correct answer and no options
+export const voiceQuestionToQuestion = (voiceQuestion: VoiceQuestion, subtopic?: string): Question => ({
+    question: voiceQuestion.question,
+    options: [],
+    correctAnswer: voiceQuestion.answer,
+    explanation: '',
+    ...(subtopic ? { subtopic } : {}),
+});
+
+export interface Mistake {
+    topic: string;
+    source: ReviewSource;
+    question: Question;
+}
+
+/** The questions of a completed test that were answered wrongly; skipped questions are left out. */
+export const collectMistakes = (questions: Question[], answers: (string | null)[], topicOf: (index: number) => string): Mistake[] =>
+    questions.flatMap((question, i) => answers[i] === null || answers[i] === undefined || isCorrectAnswer(question, answers[i])
+        ? []
+        : [{ topic: topicOf(i), source: 'practice' as const, question }]);
+
+/**
+ * Adds missed questions to the user's review queue, due tomorrow. A question
+ * already in the queue, even a mastered one, is reset to the start of its
+ * schedule. Best effort: a failure is logged and never blocks the caller.
+ */
+export const addMistakes = async (userId: string, mistakes: Mistake[]) => {
+    const unique = new Map(mistakes.map(mistake => [questionKey(mistake.question, mistake.source), mistake]));
+    if (unique.size === 0) return;
+
+    try {
+        const { data: existing, error: loadError } = await supabase
+            .from('review_items')
+            .select('question_key, ease_factor, lapses')
+            .eq('user_id', userId)
+            .in('question_key', [...unique.keys()]);
+        if (loadError) throw loadError;
+
+        const dueOn = localDate(1);
+        const rows = [...unique].map(([key, mistake]) => {
+            const saved = existing?.find(item => item.question_key === key);
+            return {
+                user_id: userId,
+                question_key: key,
+                topic: mistake.topic,
+                source: mistake.source,
+                question: mistake.question,
+                ease_factor: saved ? Math.max(MIN_EASE_FACTOR, Number(saved.ease_factor) - 0.2) : INITIAL_EASE_FACTOR,
+                interval_days: 0,
+                repetitions: 0,
+                lapses: saved ? saved.lapses + 1 : 0,
+                due_on: dueOn,
+                mastered_at: null,
+            };
+        });
+        const { error } = await supabase.from('review_items').upsert(rows, { onConflict: 'user_id,question_key' });
+        if (error) throw error;
+    } catch (e: any) {
+        console.warn("Could not add mistakes to the review queue:", e.message);
+    }
+};
+
+/** Items due for review today or earlier, oldest first. */
+export const loadDueReviews = async (userId: string, limit = DAILY_REVIEW_LIMIT): Promise<ReviewItem[]> => {
+    const { data, error } = await supabase
+        .from('review_items')
+        .select('*')
+        .eq('user_id', userId)
+        .is('mastered_at', null)
+        .lte('due_on', localDate())
+        .order('due_on', { ascending: true })
+        .order('created_at', { ascending: true })
+        .limit(limit);
+    if (error) throw error;
+    return data as ReviewItem[];
+};
+
+export const countDueReviews = async (userId: string): Promise<number> => {
+    const { count, error } = await supabase
+        .from('review_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('mastered_at', null)
+        .lte('due_on', localDate());
+    if (error) throw error;
+    return count ?? 0;
+};
+
+export const gradeAnswer = (question: Question, answer: string | null): ReviewGrade =>
+    isCorrectAnswer(question, answer) ? CORRECT_GRADE : WRONG_GRADE;
+
+/**
+ * Reschedules an item after a review and retires it once mastered. Returns
+ * the updated item. Throws the Supabase error if the update fails.
+ */
+export const recordReview = async (item: ReviewItem, grade: ReviewGrade): Promise<ReviewItem> => {
+    const next = scheduleReview({
+        easeFactor: Number(item.ease_factor),
+        intervalDays: item.interval_days,
+        repetitions: item.repetitions,
+        lapses: item.lapses,
+    }, grade);
+    const now = new Date().toISOString();
+    const changes = {
+        ease_factor: next.easeFactor,
+        interval_days: next.intervalDays,
+        repetitions: next.repetitions,
+        lapses: next.lapses,
+        due_on: localDate(next.intervalDays),
+        mastered_at: isMastered(next) ? now : null,
+        last_reviewed_at: now,
+    };
+    const { error } = await supabase
+        .from('review_items')
+        .update(changes)
+        .eq('id', item.id);
+    if (error) throw error;
+    return { ...item, ...changes };
+};
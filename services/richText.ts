@@ -0,0 +1,56 @@
+import { Marked, TokenizerAndRendererExtension } from 'marked';
+import katex from 'katex';
+import DOMPurify from 'dompurify';
+
+const renderMath = (tex: string, displayMode: boolean) =>
+    // Bad LaTeX is shown in red rather than breaking the whole text
+    katex.renderToString(tex.trim(), { displayMode, throwOnError: false, output: 'htmlAndMathml' });
+
+// $$...$$ or \[...\] on lines of their own
+const blockMath: TokenizerAndRendererExtension = {
+    name: 'blockMath',
+    level: 'block',
+    start: src => src.match(/\$\$|\\\[/)?.index,
+    tokenizer(src) {
+        const match = src.match(/^\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n|$)/) ?? src.match(/^\\\[([\s\S]+?)\\\][^\S\n]*(?:\n|$)/);
+        if (match) return { type: 'blockMath', raw: match[0], text: match[1] };
+    },
+    renderer: token => `<div class="my-2 overflow-x-auto">${renderMath(token.text, true)}</div>`,
+};
+
+// $...$, \(...\), and $$...$$ inside a sentence. A dollar sign followed by a
+// space, or a closing one followed by a digit, is a price rather than math.
+const inlineMath: TokenizerAndRendererExtension = {
+    name: 'inlineMath',
+    level: 'inline',
+    start: src => src.match(/\$|\\\(/)?.index,
+    tokenizer(src) {
+        const display = src.match(/^\$\$([\s\S]+?)\$\$/);
+        if (display) return { type: 'inlineMath', raw: display[0], text: display[1], displayMode: true };
+        const match = src.match(/^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/) ?? src.match(/^\\\(([\s\S]+?)\\\)/);
+        if (match) return { type: 'inlineMath', raw: match[0], text: match[1], displayMode: false };
+    },
+    renderer: token => renderMath(token.text, token.displayMode),
+};
+
+// GitHub-flavoured Markdown, so tables work; single line breaks are kept as typed
+const markdown = new Marked({ gfm: true, breaks: true, extensions: [blockMath, inlineMath] });
+
+// Math and code spans, matched as the tokenizers above match them, and any other asterisk
+const ASTERISK_OUTSIDE_MATH = /(\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\\([\s\S]+?\\\)|\$(?!\s)(?:\\.|[^\\$\n])+?(?<!\s)\$(?!\d)|`[^`\n]*`)|\*/g;
+
+// In "2*3*4" the asterisks are multiplication, not emphasis
+const escapeAsterisks = (text: string) => text.replace(ASTERISK_OUTSIDE_MATH, (_, kept?: string) => kept ?? '\\*');
+
+/**
+ * Renders Markdown with LaTeX math to HTML that is safe to insert into the
+ * page: any raw HTML in the text is sanitized. `inline` leaves out block
+ * elements such as paragraphs, for text inside buttons and list items.
+ * `literalAsterisks` shows every asterisk outside math as typed, for question
+ * and option text.
+ */
+export const renderRichText = (text: string, inline = false, literalAsterisks = false): string => {
+    const source = literalAsterisks ? escapeAsterisks(text) : text;
+    const html = inline ? markdown.parseInline(source, { async: false }) : markdown.parse(source, { async: false });
+    return DOMPurify.sanitize(html);
+};
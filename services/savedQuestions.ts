@@ -0,0 +1,74 @@
+import { supabase } from './supabase';
+import { questionKey } from './reviewQueue';
+import { Question, SavedQuestion } from '../types';
+
+/** The user's saved questions, newest first, optionally for one topic. */
+export const loadSavedQuestions = async (userId: string, topic?: string): Promise<SavedQuestion[]> => {
+    let query = supabase
+        .from('saved_questions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+    if (topic) query = query.eq('topic', topic);
+    const { data, error } = await query;
+    if (error) throw error;
+    return data as SavedQuestion[];
+};
+
+/** The saved state of the given questions, keyed by question key. */
+export const loadSavedQuestionsFor = async (userId: string, questions: Question[]): Promise<Record<string, SavedQuestion>> => {
+    if (questions.length === 0) return {};
+    const { data, error } = await supabase
+        .from('saved_questions')
+        .select('*')
+        .eq('user_id', userId)
+        .in('question_key', questions.map(q => questionKey(q)));
+    if (error) throw error;
+    return Object.fromEntries((data as SavedQuestion[]).map(saved => [saved.question_key, saved]));
+};
+
+/**
+ * Saves the bookmark and note of a question. A question that ends up neither
+ * bookmarked nor annotated is removed, and null is returned. Throws the
+ * Supabase error if the write fails.
+ */
+export const saveQuestion = async (
+    userId: string,
+    topic: string,
+    question: Question,
+    changes: { bookmarked: boolean; note: string }
+): Promise<SavedQuestion | null> => {
+    const key = questionKey(question);
+    const note = changes.note.trim();
+    if (!changes.bookmarked && !note) {
+        const { error } = await supabase
+            .from('saved_questions')
+            .delete()
+            .eq('user_id', userId)
+            .eq('question_key', key);
+        if (error) throw error;
+        return null;
+    }
+
+    const { data, error } = await supabase
+        .from('saved_questions')
+        .upsert({
+            user_id: userId,
+            question_key: key,
+            topic,
+            question,
+            bookmarked: changes.bookmarked,
+            note,
+            updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,question_key' })
+        .select()
+        .single();
+    if (error) throw error;
+    return data as SavedQuestion;
+};
+
+// Applies the result of `saveQuestion` to a record of saved questions keyed by question key
+export const updateSavedQuestions = (saved: Record<string, SavedQuestion>, key: string, update: SavedQuestion | null) => {
+    const { [key]: _removed, ...rest } = saved;
+    return update ? { ...rest, [key]: update } : rest;
+};
@@ -0,0 +1,151 @@
+import { Question, ScoringSchemeId, SubtopicResult } from '../types';
+import { decodeSelection, getQuestionType, isCorrectNumericAnswer } from './answers';
+
+export interface ScoringScheme {
+    id: ScoringSchemeId;
+    name: string;
+    description: string;
+    // Marks for a correct, an incorrect and an unattempted question
+    correct: number;
+    incorrect: number;
+    unattempted: number;
+}
+
+export interface ScoreSummary {
+    score: number;
+    maxScore: number;
+    correct: number;
+    incorrect: number;
+    unattempted: number;
+}
+
+export const scoringSchemes: Record<ScoringSchemeId, ScoringScheme> = {
+    'standard': {
+        id: 'standard',
+        name: 'Standard',
+        description: '+1 for a correct answer, no penalty for wrong answers.',
+        correct: 1,
+        incorrect: 0,
+        unattempted: 0,
+    },
+    'negative-quarter': {
+        id: 'negative-quarter',
+        name: 'Negative Marking (1/4)',
+        description: '+1 for a correct answer, -0.25 for a wrong one. Skipping costs nothing.',
+        correct: 1,
+        incorrect: -0.25,
+        unattempted: 0,
+    },
+    'negative-third': {
+        id: 'negative-third',
+        name: 'Negative Marking (1/3)',
+        description: '+3 for a correct answer, -1 for a wrong one. Skipping costs nothing.',
+        correct: 3,
+        incorrect: -1,
+        unattempted: 0,
+    },
+};
+
+export const DEFAULT_SCORING_SCHEME: ScoringSchemeId = 'standard';
+
+// XP is awarded per correct-answer equivalent, so it is comparable across schemes
+export const XP_PER_CORRECT_ANSWER = 100;
+
+// Limits the database applies when awarding XP for tests (award_test_xp).
+// Only questions the server holds the answer key for count towards it.
+export const MAX_XP_PER_TEST = 2000;
+export const MAX_XP_PER_DAY = 6000;
+
+export const getScoringScheme = (id: ScoringSchemeId | null | undefined): ScoringScheme =>
+    scoringSchemes[id ?? DEFAULT_SCORING_SCHEME] ?? scoringSchemes[DEFAULT_SCORING_SCHEME];
+
+export const isCorrectAnswer = (question: Question, answer: string | null | undefined): boolean => {
+    if (answer === null || answer === undefined) return false;
+    switch (getQuestionType(question)) {
+        case 'numeric':
+            return isCorrectNumericAnswer(question, answer);
+        case 'multi-select': {
+            // All correct options and nothing else; partial selections score as wrong
+            const selected = new Set(decodeSelection(answer));
+            const correct = question.correctAnswers ?? [];
+            return selected.size === correct.length && correct.every(option => selected.has(option));
+        }
+        case 'ordering': {
+            const sequence = decodeSelection(answer);
+            const correct = question.correctAnswers ?? [];
+            return sequence.length === correct.length && correct.every((option, i) => sequence[i] === option);
+        }
+        default:
+            return answer === question.correctAnswer;
+    }
+};
+
+export const scoreTest = (questions: Question[], answers: (string | null)[], schemeId: ScoringSchemeId): ScoreSummary => {
+    const scheme = getScoringScheme(schemeId);
+    const summary: ScoreSummary = { score: 0, maxScore: questions.length * scheme.correct, correct: 0, incorrect: 0, unattempted: 0 };
+
+    questions.forEach((question, i) => {
+        const answer = answers[i];
+        if (answer === null || answer === undefined) {
+            summary.unattempted++;
+            summary.score += scheme.unattempted;
+        } else if (isCorrectAnswer(question, answer)) {
+            summary.correct++;
+            summary.score += scheme.correct;
+        } else {
+            summary.incorrect++;
+            summary.score += scheme.incorrect;
+        }
+    });
+
+    summary.score = roundScore(summary.score);
+    return summary;
+};
+
+export interface PassageResult {
+    passageId: string;
+    title: string;
+    correct: number;
+    attempted: number;
+    totalQuestions: number;
+}
+
+/** Accuracy on each reading passage in a test, in the order the passages appear. */
+export const scorePassages = (questions: Question[], answers: (string | null)[]): PassageResult[] => {
+    const results = new Map<string, PassageResult>();
+    questions.forEach((question, i) => {
+        if (!question.passage) return;
+        const result = results.get(question.passage.id)
+            ?? { passageId: question.passage.id, title: question.passage.title, correct: 0, attempted: 0, totalQuestions: 0 };
+        result.totalQuestions++;
+        if (answers[i] !== null && answers[i] !== undefined) result.attempted++;
+        if (isCorrectAnswer(question, answers[i])) result.correct++;
+        results.set(question.passage.id, result);
+    });
+    return [...results.values()];
+};
+
+/** Accuracy on each subtopic in a test; questions without a subtopic are left out. */
+export const scoreSubtopics = (questions: Question[], answers: (string | null)[]): SubtopicResult[] => {
+    const results = new Map<string, SubtopicResult>();
+    questions.forEach((question, i) => {
+        if (!question.subtopic) return;
+        const result = results.get(question.subtopic)
+            ?? { subtopic: question.subtopic, correct: 0, attempted: 0, totalQuestions: 0 };
+        result.totalQuestions++;
+        if (answers[i] !== null && answers[i] !== undefined) result.attempted++;
+        if (isCorrectAnswer(question, answers[i])) result.correct++;
+        results.set(question.subtopic, result);
+    });
+    return [...results.values()];
+};
+
+export const xpForScore = (score: number, schemeId: ScoringSchemeId | null | undefined): number => {
+    const scheme = getScoringScheme(schemeId);
+    return Math.max(0, Math.round((score / scheme.correct) * XP_PER_CORRECT_ANSWER));
+};
+
+// Fractional marks are kept to two decimals to avoid floating point noise
+export const roundScore = (score: number) => Math.round(score * 100) / 100;
+
+export const formatScore = (score: number) => roundScore(score).toString();
@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+import { isCorrectAnswer } from './scoring';
+import { getTopicByName } from './topics';
+import { Difficulty, Question, SkillRating } from '../types';
+
+// Ratings use the Elo scale: a 400 point gap means 10:1 odds of a correct answer
+export const INITIAL_RATING = 1000;
+
+// Share of questions a user should answer correctly at the recommended difficulty
+export const TARGET_SUCCESS_RATE = 0.7;
+
+// The rating of a question at each difficulty. A new user is recommended
+// Medium, where they are expected to hit the target success rate.
+const difficultyRatings: Record<Difficulty, number> = {
+    Easy: 650,
+    Medium: 850,
+    Hard: 1050,
+};
+
+// Ratings move quickly for new users and settle as evidence builds up
+const INITIAL_K = 48;
+const MIN_K = 16;
+
+const kFactor = (attempts: number) => Math.max(MIN_K, INITIAL_K / Math.sqrt(1 + attempts / 20));
+
+export const skillLevels: { label: string; min: number }[] = [
+    { label: 'Expert', min: 1350 },
+    { label: 'Advanced', min: 1200 },
+    { label: 'Proficient', min: 1050 },
+    { label: 'Developing', min: 900 },
+    { label: 'Beginner', min: -Infinity },
+];
+
+export const skillLevel = (rating: number) => skillLevels.find(level => rating >= level.min)!.label;
+
+/** The chance that a user with this rating answers a question of the given difficulty correctly. */
+export const expectedSuccess = (rating: number, difficulty: Difficulty) =>
+    1 / (1 + Math.pow(10, (difficultyRatings[difficulty] - rating) / 400));
+
+/** The difficulty whose expected success rate is closest to the target. */
+export const recommendDifficulty = (rating: number): Difficulty => {
+    const levels = Object.keys(difficultyRatings) as Difficulty[];
+    return levels.reduce((best, level) =>
+        Math.abs(expectedSuccess(rating, level) - TARGET_SUCCESS_RATE) < Math.abs(expectedSuccess(rating, best) - TARGET_SUCCESS_RATE) ? level : best
+    );
+};
+
+export interface SkillOutcome {
+    difficulty: Difficulty;
+    correct: boolean;
+}
+
+/** Applies one Elo update per answered question, in order. */
+export const updateRating = (current: { rating: number; attempts: number }, outcomes: SkillOutcome[]) =>
+    outcomes.reduce(({ rating, attempts }, outcome) => ({
+        rating: rating + kFactor(attempts) * ((outcome.correct ? 1 : 0) - expectedSuccess(rating, outcome.difficulty)),
+        attempts: attempts + 1,
+    }), current);
+
+export const loadSkillRatings = async (userId: string): Promise<SkillRating[]> => {
+    const { data, error } = await supabase
+        .from('skill_ratings')
+        .select('*')
+        .eq('user_id', userId);
+    if (error) throw error;
+    return data as SkillRating[];
+};
+
+/**
+ * Updates the user's rating for every taxonomy topic in a completed test from
+ * the questions they answered; skipped questions say nothing about skill.
+ * `topicOf` gives the topic of each question, which differs per section in a
+ * mock exam. Best effort: a failure is logged and the test result stands.
+ */
+export const updateSkillRatings = async (
+    userId: string,
+    questions: Question[],
+    answers: (string | null)[],
+    topicOf: (index: number) => string,
+    fallbackDifficulty: Difficulty
+) => {
+    const outcomes = new Map<string, SkillOutcome[]>();
+    questions.forEach((question, i) => {
+        const topic = topicOf(i);
+        if (answers[i] === null || answers[i] === undefined || !getTopicByName(topic)) return;
+        const outcome = { difficulty: question.difficulty ?? fallbackDifficulty, correct: isCorrectAnswer(question, answers[i]) };
+        outcomes.set(topic, [...(outcomes.get(topic) ?? []), outcome]);
+    });
+    if (outcomes.size === 0) return;
+
+    try {
+        const existing = await loadSkillRatings(userId);
+        const now = new Date().toISOString();
+        const rows = [...outcomes].map(([topic, topicOutcomes]) => {
+            const saved = existing.find(r => r.topic === topic);
+            const { rating, attempts } = updateRating({ rating: Number(saved?.rating ?? INITIAL_RATING), attempts: saved?.attempts ?? 0 }, topicOutcomes);
+            return { user_id: userId, topic, rating, attempts, updated_at: now };
+        });
+        const { error } = await supabase.from('skill_ratings').upsert(rows);
+        if (error) throw error;
+    } catch (e: any) {
+        console.warn("Could not update skill ratings:", e.message);
+    }
+};
@@ -0,0 +1,92 @@
+import { supabase } from './supabase';
+import { getQuestionType, parseNumericAnswer } from './answers';
+import { updateSkillRatings } from './skill';
+import { ProctoringEvent, Question, TestMode, TestSettings } from '../types';
+
+export interface TestAttempt {
+    // Id of the `test_attempts` row the test was registered as
+    id: string;
+    userId: string;
+    topic: string;
+    mode: TestMode;
+    settings: TestSettings;
+    questions: Question[];
+    // Section name of each question, for tests split into sections
+    questionSections?: string[];
+}
+
+export interface TestSubmission {
+    answers: (string | null)[];
+    // Seconds spent on each section, keyed by section name
+    sectionTimes?: Record<string, number>;
+    // Seconds spent on each question, for tests that time them
+    questionTimes?: (number | null)[];
+    // Violations recorded during a proctored test
+    proctoringLog?: ProctoringEvent[];
+}
+
+export interface GradedTest {
+    resultId: string;
+    // Marks under the test's scoring scheme, as graded by the database
+    score: number;
+    maxScore: number;
+    pointsEarned: number;
+}
+
+/**
+ * Registers a test, answer keys included, before it is taken. Only the
+ * database can grade it afterwards. Bank questions are graded against the
+ * server's copy of the bank; other questions are generated in the browser,
+ * so they earn no XP, and the database limits each test to the question
+ * counts the app offers. `settings.questionCount` must match the
+ * questions. A daily challenge needs its date and returns the attempt already
+ * started, if there is one. Throws the Supabase error if it fails.
+ */
+export const startTestAttempt = async (attempt: Omit<TestAttempt, 'id'>, challengeDate?: string): Promise<TestAttempt> => {
+    const { data, error } = await supabase.rpc('start_test_attempt', {
+        test_topic: attempt.topic,
+        test_mode: attempt.mode,
+        test_settings: attempt.settings,
+        test_questions: attempt.questions,
+        question_sections: attempt.questionSections ?? null,
+        challenge_day: challengeDate ?? null
+    });
+    if (error) throw error;
+    return { ...attempt, id: data as string };
+};
+
+// Numeric answers are sent in the question's unit, so the database only has to compare numbers
+const toGradableAnswer = (question: Question, answer: string | null): string | null => {
+    if (answer === null || getQuestionType(question) !== 'numeric') return answer;
+    const value = parseNumericAnswer(answer, question.unit);
+    return value === null ? answer : String(value);
+};
+
+/**
+ * Submits the answers to a registered test. The database grades them, saves
+ * the result and every response, and awards the XP in one transaction; a
+ * second submission of the same attempt is rejected. The skill ratings are
+ * then updated from the answers. Throws the Supabase error if grading fails.
+ */
+export const submitTestAttempt = async (attempt: TestAttempt, submission: TestSubmission): Promise<GradedTest> => {
+    const { data, error } = await supabase.rpc('submit_test_attempt', {
+        attempt_id: attempt.id,
+        answers: attempt.questions.map((question, i) => toGradableAnswer(question, submission.answers[i] ?? null)),
+        section_times: submission.sectionTimes ?? null,
+        violations: submission.proctoringLog ?? null,
+        question_times: submission.questionTimes ?? null
+    });
+    if (error) throw error;
+
+    // Update the skill rating of each topic the test covered
+    await updateSkillRatings(
+        attempt.userId,
+        attempt.questions,
+        submission.answers,
+        i => attempt.questionSections?.[i] ?? attempt.topic,
+        attempt.settings.difficulty
+    );
+
+    const graded = data as GradedTest;
+    return { ...graded, score: Number(graded.score), maxScore: Number(graded.maxScore) };
+};
@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+import { ProctoringEvent, Question, TestSettings } from '../types';
+
+export interface PracticeSession {
+    topicKey: string;
+    topic: string;
+    settings: TestSettings;
+    questions: Question[];
+    answers: (string | null)[];
+    currentQuestionIndex: number;
+    // Whether the explanation of the current question was on screen
+    revealed: boolean;
+    timeLeft: number;
+    // Seconds spent on each question so far; null until it is reached
+    questionTimes?: (number | null)[];
+    // Violations so far, for a proctored test
+    proctoringLog?: ProctoringEvent[];
+    // Id of the test as registered for grading
+    attemptId?: string;
+    updatedAt: string;
+}
+
+export const DEFAULT_ABANDON_AFTER_MINUTES = 60;
+
+// Kept per user, like the synced copy, so a shared browser never offers one user's test to another
+const storageKey = (userId: string, topicKey: string) => `aptiProSession:${userId}:${topicKey}`;
+
+/**
+ * A session left untouched for longer than the test's abandon window is no
+ * longer offered for resuming; it is submitted with the answers it has.
+ */
+export const isSessionAbandoned = (session: PracticeSession, now = Date.now()): boolean => {
+    const windowMinutes = session.settings.abandonAfterMinutes ?? DEFAULT_ABANDON_AFTER_MINUTES;
+    return now - new Date(session.updatedAt).getTime() > windowMinutes * 60 * 1000;
+};
+
+export const saveSessionLocally = (userId: string, session: PracticeSession) => {
+    try {
+        localStorage.setItem(storageKey(userId, session.topicKey), JSON.stringify(session));
+    } catch (e) {
+        console.error("Failed to save test session locally", e);
+    }
+};
+
+// Remote writes to one session run in order, so a save still in flight
+// cannot land after the session is cleared and bring it back.
+const remoteWrites = new Map<string, Promise<void>>();
+
+const queueRemoteWrite = (userId: string, topicKey: string, write: () => Promise<void>) => {
+    const key = storageKey(userId, topicKey);
+    const queued = (remoteWrites.get(key) ?? Promise.resolve()).then(write);
+    remoteWrites.set(key, queued);
+    queued.then(() => {
+        if (remoteWrites.get(key) === queued) remoteWrites.delete(key);
+    });
+    return queued;
+};
+
+// Syncing to Supabase is best effort: the local copy is always kept.
+export const saveSessionRemotely = (userId: string, session: PracticeSession) =>
+    queueRemoteWrite(userId, session.topicKey, async () => {
+        const { error } = await supabase
+            .from('test_sessions')
+            .upsert({
+                user_id: userId,
+                topic_key: session.topicKey,
+                state: session,
+                updated_at: session.updatedAt
+            });
+        if (error) {
+            console.warn("Could not sync test session:", error.message);
+        }
+    });
+
+const loadLocalSession = (userId: string, topicKey: string): PracticeSession | null => {
+    try {
+        const saved = localStorage.getItem(storageKey(userId, topicKey));
+        return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+        console.error("Failed to load test session", e);
+        return null;
+    }
+};
+
+const loadRemoteSession = async (userId: string, topicKey: string): Promise<PracticeSession | null> => {
+    const { data, error } = await supabase
+        .from('test_sessions')
+        .select('state')
+        .eq('user_id', userId)
+        .eq('topic_key', topicKey)
+        .maybeSingle();
+    if (error) {
+        console.warn("Could not load synced test session:", error.message);
+        return null;
+    }
+    return data ? data.state as PracticeSession : null;
+};
+
+/** Returns the most recently updated unfinished session for a topic, local or synced. */
+export const loadSession = async (userId: string, topicKey: string): Promise<PracticeSession | null> => {
+    const local = loadLocalSession(userId, topicKey);
+    const remote = await loadRemoteSession(userId, topicKey);
+    if (local && remote) {
+        return new Date(remote.updatedAt) > new Date(local.updatedAt) ? remote : local;
+    }
+    return local ?? remote;
+};
+
+export const clearSession = (userId: string, topicKey: string) => {
+    localStorage.removeItem(storageKey(userId, topicKey));
+    return queueRemoteWrite(userId, topicKey, async () => {
+        const { error } = await supabase
+            .from('test_sessions')
+            .delete()
+            .eq('user_id', userId)
+            .eq('topic_key', topicKey);
+        if (error) {
+            console.warn("Could not clear synced test session:", error.message);
+        }
+    });
+};
@@ -0,0 +1,110 @@
+import { supabase } from './supabase';
+import { getTopicByName } from './topics';
+import { isCorrectAnswer } from './scoring';
+import { loadVoiceTestResults } from './voiceTests';
+import { Question, TestResponse, VoiceResponse } from '../types';
+
+// One question with the time it took, from a practice or voice test
+export interface TimedAnswer {
+    topic: string;
+    question: string;
+    timeSpentSeconds: number;
+    // False when time ran out before an answer was given
+    answered: boolean;
+    isCorrect: boolean;
+}
+
+export interface TopicPace {
+    topic: string;
+    questions: number;
+    averageSeconds: number;
+    targetSeconds: number;
+}
+
+// Correct but slower than the exam allows, or wrong after barely reading the question
+export type PaceFlag = 'slow-correct' | 'fast-wrong';
+
+// Used for topics missing from the taxonomy
+export const DEFAULT_TARGET_SECONDS = 60;
+
+// A wrong answer given in under this share of the target pace counts as rushed
+const RUSHED_SHARE = 0.5;
+
+export const targetPace = (topicName: string) =>
+    getTopicByName(topicName)?.targetSecondsPerQuestion ?? DEFAULT_TARGET_SECONDS;
+
+export const paceFlag = (answer: TimedAnswer): PaceFlag | null => {
+    const target = targetPace(answer.topic);
+    if (answer.isCorrect && answer.timeSpentSeconds > target) return 'slow-correct';
+    if (answer.answered && !answer.isCorrect && answer.timeSpentSeconds < target * RUSHED_SHARE) return 'fast-wrong';
+    return null;
+};
+
+/** Average time per question for each topic, in the order the topics first appear. */
+export const paceByTopic = (answers: TimedAnswer[]): TopicPace[] => {
+    const totals = new Map<string, { questions: number; seconds: number }>();
+    answers.forEach(answer => {
+        const total = totals.get(answer.topic) ?? { questions: 0, seconds: 0 };
+        totals.set(answer.topic, { questions: total.questions + 1, seconds: total.seconds + answer.timeSpentSeconds });
+    });
+    return [...totals].map(([topic, total]) => ({
+        topic,
+        questions: total.questions,
+        averageSeconds: Math.round(total.seconds / total.questions),
+        targetSeconds: targetPace(topic),
+    }));
+};
+
+export const formatSeconds = (seconds: number) =>
+    seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${('0' + seconds % 60).slice(-2)}s`;
+
+/** The timed answers of a test that has just been taken, skipping questions that were never reached. */
+export const timedTestAnswers = (topic: string, questions: Question[], answers: (string | null)[], times: (number | null)[]): TimedAnswer[] =>
+    questions.flatMap((question, i) => times[i] == null ? [] : [{
+        topic,
+        question: question.question,
+        timeSpentSeconds: times[i]!,
+        answered: answers[i] !== null,
+        isCorrect: isCorrectAnswer(question, answers[i]),
+    }]);
+
+export const timedVoiceAnswers = (topic: string, responses: VoiceResponse[]): TimedAnswer[] =>
+    responses.map(response => ({
+        topic,
+        question: response.question,
+        timeSpentSeconds: response.timeSpentSeconds,
+        answered: response.spokenAnswer !== null,
+        isCorrect: response.isCorrect,
+    }));
+
+type TimedResponseRow = Pick<TestResponse, 'section' | 'question' | 'selected_answer' | 'is_correct' | 'time_spent_seconds'> & {
+    test_results: { topic: string };
+};
+
+/**
+ * Every timed answer the user gave since the given time, from practice tests
+ * and voice tests. Tests taken before timing was recorded are left out.
+ * Throws the Supabase error if either query fails.
+ */
+export const loadRecentTimedAnswers = async (userId: string, since: Date): Promise<TimedAnswer[]> => {
+    const { data, error } = await supabase
+        .from('test_responses')
+        .select('section, question, selected_answer, is_correct, time_spent_seconds, test_results!inner(topic, created_at)')
+        .eq('user_id', userId)
+        .not('time_spent_seconds', 'is', null)
+        .gte('test_results.created_at', since.toISOString());
+    if (error) throw error;
+
+    const voiceTests = await loadVoiceTestResults(userId, since);
+
+    return [
+        ...(data as unknown as TimedResponseRow[]).map(row => ({
+            topic: row.section ?? row.test_results.topic,
+            question: row.question.question,
+            timeSpentSeconds: row.time_spent_seconds!,
+            answered: row.selected_answer !== null,
+            isCorrect: row.is_correct,
+        })),
+        ...voiceTests.flatMap(test => timedVoiceAnswers(test.topic, test.responses)),
+    ];
+};
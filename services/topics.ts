@@ -0,0 +1,28 @@
+import taxonomyData from '../data/topics.json';
+import { Subtopic, Topic } from '../types';
+
+// Topics and their subtopics, shared by every test mode and by the analytics
+export const topics: Topic[] = (taxonomyData as { topics: Topic[] }).topics;
+
+export const getTopicByKey = (key: string | undefined) => topics.find(topic => topic.key === key);
+
+export const getTopicByName = (name: string) => topics.find(topic => topic.name === name);
+
+export const getSubtopics = (topicName: string): Subtopic[] => getTopicByName(topicName)?.subtopics ?? [];
+
+/** Finds a subtopic by name, with the topic it belongs to. Subtopic names are unique across topics. */
+export const findSubtopic = (name: string): { topic: Topic; subtopic: Subtopic } | null => {
+    for (const topic of topics) {
+        const subtopic = topic.subtopics.find(s => s.name === name);
+        if (subtopic) return { topic, subtopic };
+    }
+    return null;
+};
+
+/** The practice route for a topic, or for one of its subtopics. */
+export const practicePath = (topicName: string, subtopicName?: string) => {
+    const topic = getTopicByName(topicName);
+    if (!topic) return '/practice';
+    const subtopic = subtopicName ? topic.subtopics.find(s => s.name === subtopicName) : undefined;
+    return subtopic ? `/practice/${topic.key}/${subtopic.key}` : `/practice/${topic.key}`;
+};
@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+import { Difficulty, VoiceResponse, VoiceTestResult } from '../types';
+
+/**
+ * Saves a finished voice test with the responses to the questions reached.
+ * Voice answers are judged in the browser, so the result earns no XP. Throws
+ * the Supabase error if the write fails.
+ */
+export const saveVoiceTestResult = async (
+    userId: string,
+    test: { topic: string; subtopic?: string; difficulty: Difficulty; totalQuestions: number; responses: VoiceResponse[] }
+) => {
+    const { error } = await supabase
+        .from('voice_test_results')
+        .insert({
+            user_id: userId,
+            topic: test.topic,
+            subtopic: test.subtopic ?? null,
+            difficulty: test.difficulty,
+            score: test.responses.filter(r => r.isCorrect).length,
+            total_questions: test.totalQuestions,
+            responses: test.responses
+        });
+    if (error) throw error;
+};
+
+/** The user's voice tests taken since the given time, newest first. */
+export const loadVoiceTestResults = async (userId: string, since: Date): Promise<VoiceTestResult[]> => {
+    const { data, error } = await supabase
+        .from('voice_test_results')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as VoiceTestResult[];
+};
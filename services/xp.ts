@@ -0,0 +1,45 @@
+import { supabase } from './supabase';
+import { XpEvent, XpSource } from '../types';
+
+export const XP_FEED_SIZE = 10;
+
+export const xpSourceLabels: Record<XpSource, string> = {
+    'practice': 'Practice test',
+    'mock-exam': 'Mock exam',
+    'voice-test': 'Voice test',
+    'daily-challenge': 'Daily Challenge',
+    'admin-adjustment': 'Adjustment',
+};
+
+/** A user's most recent XP events, newest first. */
+export const loadXpEvents = async (userId: string, limit = XP_FEED_SIZE): Promise<XpEvent[]> => {
+    const { data, error } = await supabase
+        .from('xp_events')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    if (error) throw error;
+    return data as XpEvent[];
+};
+
+/**
+ * Adds an admin adjustment to a user's ledger. The note is required so the
+ * reason stays on record. Returns the user's new XP total.
+ */
+export const adjustXp = async (userId: string, amount: number, note: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('adjust_user_xp', {
+        target_user: userId,
+        amount,
+        note: note.trim()
+    });
+    if (error) throw error;
+    return data as number;
+};
+
+/** Resets a user's XP total to the sum of their ledger. Returns the new total. */
+export const recomputeXp = async (userId: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('recompute_user_xp', { target_user: userId });
+    if (error) throw error;
+    return data as number;
+};
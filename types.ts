@@ -7,22 +7,296 @@ export interface Profile {
     username: string | null;
     avatar_url: string | null;
     score: number;
+    // Admins review question reports
+    is_admin?: boolean;
+}
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
+export type TimeLimitMode = 'per-test' | 'per-question' | 'per-section';
+
+export type TestMode = 'practice' | 'mock-exam' | 'daily-challenge';
+
+// Where a test's questions come from
+export type QuestionSource = 'ai' | 'bank' | 'mixed' | 'generated';
+
+// Verbal Ability can also be drawn as reading-comprehension passage sets
+export type QuestionFormat = 'standalone' | 'passages';
+
+export interface Subtopic {
+    key: string;
+    name: string;
+    description: string;
+}
+
+// One entry of the topic taxonomy in data/topics.json
+export interface Topic {
+    key: string;
+    name: string;
+    description: string;
+    // Offered in the voice test, where answers have to be short enough to say
+    voice: boolean;
+    // Seconds a question should take at the pace of a typical aptitude exam
+    targetSecondsPerQuestion: number;
+    subtopics: Subtopic[];
+}
+
+export type ScoringSchemeId = 'standard' | 'negative-quarter' | 'negative-third';
+
+export interface TestSettings {
+    questionCount: number;
+    difficulty: Difficulty;
+    timeLimitMode: TimeLimitMode;
+    // Total seconds for 'per-test', otherwise seconds for each question or section
+    timeLimitSeconds: number;
+    scoringScheme: ScoringSchemeId;
+    questionSource?: QuestionSource;
+    questionFormat?: QuestionFormat;
+    // Name of the subtopic a practice test is restricted to
+    subtopic?: string;
+    // Difficulty was picked from the user's skill rating rather than by hand
+    adaptive?: boolean;
+    // Minutes an unfinished test may be left before it is auto-submitted
+    abandonAfterMinutes?: number;
+    // Topics making up each section of a mock exam
+    sections?: string[];
+    // Present when the test is proctored
+    proctoring?: ProctoringSettings;
+}
+
+export interface ProctoringSettings {
+    // Violations after which the test is submitted automatically
+    maxViolations: number;
+}
+
+export type ViolationKind = 'tab-switch' | 'window-blur' | 'copy' | 'paste' | 'fullscreen-exit';
+
+export interface ProctoringEvent {
+    kind: ViolationKind;
+    at: string;
+    // The question on screen when it happened
+    questionIndex: number;
+}
+
+export interface SectionResult {
+    topic: string;
+    score: number;
+    maxScore: number;
+    correct: number;
+    totalQuestions: number;
+    attempted: number;
+    timeSpentSeconds: number;
+}
+
+export interface SubtopicResult {
+    subtopic: string;
+    correct: number;
+    attempted: number;
+    totalQuestions: number;
 }
 
 export interface TestResult {
     id: string;
     created_at: string;
     topic: string;
+    mode: TestMode;
+    scoring_scheme: ScoringSchemeId;
     score: number;
+    max_score: number | null;
     total_questions: number;
+    percentage: number;
+    settings: TestSettings | null;
+    section_results: SectionResult[] | null;
+    subtopic: string | null;
+    subtopic_results: SubtopicResult[] | null;
+    proctoring_log: ProctoringEvent[] | null;
     user_id: string;
 }
 
+export type QuestionOrigin = 'ai' | 'bank' | 'generated';
+
+export type DataSetKind = 'bar' | 'line' | 'pie' | 'table';
+
+export interface DataSeries {
+  name: string;
+  // One value per category
+  values: number[];
+}
+
+// Structured data behind a Data Interpretation question. Questions that share
+// a chart or table carry the same data set, with the same id.
+export interface DataSet {
+  id: string;
+  kind: DataSetKind;
+  title: string;
+  // Axis labels, pie slices or table rows
+  categories: string[];
+  // Pie charts use only the first series
+  series: DataSeries[];
+  unit?: string;
+}
+
+// A reading passage shared by a group of questions, identified by its id
+export interface Passage {
+  id: string;
+  title: string;
+  text: string;
+}
+
+// Multi-select asks for every correct option; ordering asks for the options in sequence
+export type QuestionType = 'single-choice' | 'numeric' | 'multi-select' | 'ordering';
+
 export interface Question {
+  id?: string;
+  // Absent on single-choice questions
+  type?: QuestionType;
+  // A subtopic name from the taxonomy, when known
+  subtopic?: string;
+  // The level the question was written or drawn at
+  difficulty?: Difficulty;
   question: string;
+  // Empty for numeric questions; for ordering, the items in the order they are shown
   options: string[];
+  // The correct option, the number for numeric questions, or a readable
+  // summary of `correctAnswers` for multi-select and ordering questions
   correctAnswer: string;
+  // Every correct option (multi-select) or the options in the correct order (ordering)
+  correctAnswers?: string[];
+  // Numeric questions: how far off an answer may be, and the unit it is expected in
+  tolerance?: number;
+  unit?: string;
   explanation: string;
+  source?: QuestionOrigin;
+  dataSet?: DataSet;
+  passage?: Passage;
+}
+
+export interface BankQuestion extends Question {
+  id: string;
+  topic: string;
+  subtopic: string;
+  difficulty: Difficulty;
+}
+
+export interface QuestionBank {
+  version: number;
+  updatedAt: string;
+  questions: BankQuestion[];
+}
+
+// A user's Elo-style skill estimate for one topic
+export interface SkillRating {
+    user_id: string;
+    topic: string;
+    rating: number;
+    // Questions the rating has been updated from
+    attempts: number;
+    updated_at: string;
+}
+
+// Where a missed question came from. Voice questions have a spoken answer
+// and no options, so they are reviewed as self-graded flashcards.
+export type ReviewSource = 'practice' | 'voice';
+
+export interface ReviewItem {
+    id: string;
+    user_id: string;
+    // Identifies the question so missing it again reschedules the same item
+    question_key: string;
+    topic: string;
+    source: ReviewSource;
+    question: Question;
+    // SM-2 scheduling state
+    ease_factor: number;
+    interval_days: number;
+    repetitions: number;
+    lapses: number;
+    due_on: string;
+    mastered_at: string | null;
+    last_reviewed_at: string | null;
+    created_at: string;
+}
+
+// A question the user bookmarked or wrote a note on. The row is removed
+// once it is neither bookmarked nor has a note.
+export interface SavedQuestion {
+    id: string;
+    user_id: string;
+    question_key: string;
+    topic: string;
+    question: Question;
+    bookmarked: boolean;
+    note: string;
+    created_at: string;
+    updated_at: string;
+}
+
+// One user's attempt at the daily challenge. The row is created when the
+// challenge is started, so each user gets a single attempt per day.
+export interface DailyChallengeAttempt {
+    user_id: string;
+    challenge_date: string;
+    started_at: string;
+    completed_at: string | null;
+    score: number | null;
+    total_questions: number;
+    time_taken_seconds: number | null;
+    test_result_id: string | null;
+    // The graded test behind the attempt
+    test_attempt_id: string | null;
+}
+
+export interface DailyChallengeEntry extends DailyChallengeAttempt {
+    profiles: Pick<Profile, 'username' | 'avatar_url'> | null;
+}
+
+export type ReportReason = 'wrong-answer' | 'ambiguous' | 'typo' | 'offensive';
+
+export type ReportStatus = 'open' | 'accepted' | 'rejected';
+
+export interface QuestionReport {
+    id: string;
+    user_id: string;
+    reason: ReportReason;
+    details: string;
+    topic: string;
+    // The question exactly as the user saw it
+    question: Question;
+    status: ReportStatus;
+    resolution_note: string | null;
+    // Test results whose score changed when the report was accepted
+    regraded_results: number | null;
+    resolved_at: string | null;
+    created_at: string;
+}
+
+export type XpSource = 'practice' | 'mock-exam' | 'voice-test' | 'daily-challenge' | 'admin-adjustment';
+
+export interface XpEvent {
+    id: string;
+    user_id: string;
+    source: XpSource;
+    // Negative for deductions, e.g. after a regrade
+    amount: number;
+    test_attempt_id: string | null;
+    test_result_id: string | null;
+    note: string | null;
+    // The admin who made an adjustment
+    created_by: string | null;
+    created_at: string;
+}
+
+export interface TestResponse {
+    id: string;
+    test_result_id: string;
+    user_id: string;
+    position: number;
+    section: string | null;
+    question: Question;
+    selected_answer: string | null;
+    is_correct: boolean;
+    // Seconds spent before answering; null for tests that don't time each question
+    time_spent_seconds: number | null;
 }
 
 export interface VoiceQuestion {
@@ -30,6 +304,28 @@ export interface VoiceQuestion {
   answer: string;
 }
 
+// One question of a voice test as it was answered
+export interface VoiceResponse {
+    question: string;
+    answer: string;
+    // Null when time ran out before anything was said
+    spokenAnswer: string | null;
+    isCorrect: boolean;
+    timeSpentSeconds: number;
+}
+
+export interface VoiceTestResult {
+    id: string;
+    user_id: string;
+    topic: string;
+    subtopic: string | null;
+    difficulty: Difficulty;
+    score: number;
+    total_questions: number;
+    responses: VoiceResponse[];
+    created_at: string;
+}
+
 export interface CommunityPost {
     id: string;
     created_at: string;